@@ -0,0 +1,104 @@
+import config, { resolveProjectPath } from './config';
+import testContext, { getCurrentStepPath } from './testContext';
+import logger, { redactValue } from './logger';
+import { checkFolderAndCreate, writeJsonData } from './file.utils';
+
+
+/*
+Lifecycle of the assertion results of a test. `beginAssertScope` creates a fresh testContext.assertsJson and persists
+it to testContext.runtimeStorageFile, every recorded failure is written through to that file straight away, and
+`endAssertScope` closes the scope and throws one SoftAssertionError listing every soft failure of the test. The
+fixtures in fixtures.ts call both around each test.
+*/
+
+
+export type AssertsJson = {
+    testId: string,
+    title: string,
+    file?: string,
+    runId?: string,
+    tags?: string[],
+    startedAt: string,
+    endedAt?: string,
+    status?: string,
+    error?: string,
+    soft: any[],
+    hard: any[],
+    actionFailures: any[],
+    // Step tree of test.steps.ts
+    steps?: any[]
+}
+
+export class SoftAssertionError extends Error {
+    failures: any[];
+
+    constructor(title: string, failures: any[]) {
+        super(`${failures.length} soft assertion(s) failed in [${title}]:\n${failures.map((failure, index) => `  ${index + 1}. ${failure.message} {Actual : [${failure.Actual}] - Expected [${failure.expected}]}`).join('\n')}`);
+        this.name = 'SoftAssertionError';
+        this.failures = failures;
+    }
+}
+
+// Folder which holds every runtime file of one test: assertion results, logs and failure artifacts
+export function getTestRuntimeFolder(testId: string, title: string) {
+    const slug = `${title}`.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 80);
+    return `${resolveProjectPath(config.RUNTIME_RESULTS_PATH)}/${slug}_${testId}`;
+}
+
+export async function persistAsserts() {
+    if (testContext.assertsJson === undefined || testContext.runtimeStorageFile === undefined) return;
+    // Only the persisted copy is redacted, the in-memory records keep the values for the running test
+    await writeJsonData(testContext.runtimeStorageFile, redactValue(testContext.assertsJson));
+}
+
+export async function beginAssertScope(options: { testId: string, title: string, file?: string, tags?: string[], runtimeStorageFile?: string }) {
+    const path = require("path");
+    testContext.runtimeStorageFile = options.runtimeStorageFile ?? `${getTestRuntimeFolder(options.testId, options.title)}/asserts.json`;
+    await checkFolderAndCreate(path.dirname(testContext.runtimeStorageFile));
+    const assertsJson: AssertsJson = {
+        testId: options.testId,
+        title: options.title,
+        file: options.file,
+        runId: process.env.TEST_RUN_ID,
+        tags: options.tags ?? [],
+        startedAt: new Date().toISOString(),
+        soft: [],
+        hard: [],
+        actionFailures: [],
+        steps: []
+    };
+    testContext.assertsJson = assertsJson;
+    await persistAsserts();
+    return assertsJson;
+}
+
+// Adds a soft failure to the current scope and writes the results file, so nothing is lost if the worker dies. The
+// failure counts for the running step and every step enclosing it
+export async function recordSoftFailure(record: any) {
+    if (testContext.assertsJson === undefined) {
+        await logger.error(`recordSoftFailure :: no assertion scope is active, failure is only logged - ${JSON.stringify(record)}`);
+        return;
+    }
+    testContext.assertsJson.soft.push({ ...record, step: getCurrentStepPath() });
+    (testContext.activeSteps.getStore() ?? []).forEach((node) => node.softFailures++);
+    await persistAsserts();
+}
+
+export async function endAssertScope(options?: { status?: string, error?: string, throwOnSoftFailures?: boolean }) {
+    const assertsJson: AssertsJson = testContext.assertsJson;
+    if (assertsJson === undefined) return;
+    const throwOnSoftFailures = options?.throwOnSoftFailures ?? true;
+    assertsJson.endedAt = new Date().toISOString();
+    assertsJson.status = options?.status ?? 'passed';
+    assertsJson.error = options?.error;
+    if (assertsJson.soft.length > 0 && assertsJson.status === 'passed') assertsJson.status = 'failed';
+    await persistAsserts();
+    testContext.assertsJson = undefined;
+    if (assertsJson.soft.length > 0) {
+        await logger.error(`${assertsJson.soft.length} soft assertion(s) failed in [${assertsJson.title}], results saved to ${testContext.runtimeStorageFile}`);
+        if (throwOnSoftFailures) {
+            throw new SoftAssertionError(assertsJson.title, assertsJson.soft);
+        }
+    }
+    return assertsJson;
+}
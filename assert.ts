@@ -1,12 +1,28 @@
 import { expect } from "@playwright/test"
-import testContext from "./testContext"
+import testContext, { getCurrentStepPath } from "./testContext"
 import logger from "./logger"
+import sessions from "./session"
+import { captureFailureArtifacts } from "./failure.artifacts"
+import { persistAsserts, recordSoftFailure } from "./assert.scope"
+import { DiffEntry, jsonDiff, subsetDiff, unorderedDiff } from "./diff.utils"
+import { parseDate } from "./date.utils"
+import { TableCompareOptions, TableSnapshot, compareSnapshots } from "./table.snapshot"
 
 
 
-class CustomAssert {
+export class CustomAssert {
+    // Captures the failure artifacts of the default session page and records the hard failure with their paths
+    protected async recordHardFailure(assertion: string, actual: any, expected: any, message: string, error: any, diff?: any){
+        const artifacts = await captureFailureArtifacts(assertion, { page: sessions.get().page, error: error })
+        if (testContext.assertsJson !== undefined){
+            if (testContext.assertsJson.hard === undefined) testContext.assertsJson.hard = []
+            testContext.assertsJson.hard.push({ [assertion] : "Failed", Actual: `${actual}`, expected: `${expected}`, message: `${message}`, diff: diff, artifacts: artifacts, step: getCurrentStepPath()})
+            await persistAsserts()
+        }
+    }
+
     async softAssert(actual: any, expected: any, message: string, caseSensitive: boolean = false){
-        if (actual === String() && expected == String()){
+        if (typeof actual === 'string' && typeof expected === 'string'){
             actual = caseSensitive ? actual.trim() : actual.toLowerCase().trim();
             expected = caseSensitive ? expected.trim() : expected.toLowerCase().trim();
         }
@@ -14,7 +30,7 @@ class CustomAssert {
             await logger.info(`softAssert :: ${message} {Actual : [${actual}] - Expected [${expected}]}`)
         }else{
             await logger.error(`softAssert :: ${message} {Actual : [${actual}] - Expected [${expected}]}`)
-            testContext.assertsJson.soft.push({ softAssert : "Failed", caseSensitive: `${caseSensitive}`, Actual: `${actual}`, expected: `${expected}`, message: `${message}`})
+            await recordSoftFailure({ softAssert : "Failed", caseSensitive: `${caseSensitive}`, Actual: `${actual}`, expected: `${expected}`, message: `${message}`})
         }
     }
 
@@ -26,7 +42,7 @@ class CustomAssert {
             await logger.info(`softContains :: ${message} {Actual : [${actual}] - Expected [${expected}]}`)
         }else{
             await logger.error(`softContains :: ${message} {Actual : [${actual}] - Expected [${expected}]}`)
-            testContext.assertsJson.soft.push({ softContains : "Failed", caseSensitive: `${caseSensitive}`, Actual: `${actual}`, expected: `${expected}`, message: `${message}`})
+            await recordSoftFailure({ softContains : "Failed", caseSensitive: `${caseSensitive}`, Actual: `${actual}`, expected: `${expected}`, message: `${message}`})
         }
     }
           
@@ -38,7 +54,7 @@ class CustomAssert {
             await logger.info(`softNotContains :: ${message} {Actual : [${actual}] - Expected [${expected}]}`)
         }else{
             await logger.error(`softNotContains :: ${message} {Actual : [${actual}] - Expected [${expected}]}`)
-            testContext.assertsJson.soft.push({ softNotContains : "Failed", caseSensitive: `${caseSensitive}`, Actual: `${actual}`, expected: `${expected}`, message: `${message}`})
+            await recordSoftFailure({ softNotContains : "Failed", caseSensitive: `${caseSensitive}`, Actual: `${actual}`, expected: `${expected}`, message: `${message}`})
         }
     }
 
@@ -50,7 +66,7 @@ class CustomAssert {
             await logger.info(`softContainsForStringArray :: ${message} {Actual : [${actual}] - Expected [${expected}]}`)
         }else{
             await logger.error(`softContainsForStringArray :: ${message} {Actual : [${actual}] - Expected [${expected}]}`)
-            testContext.assertsJson.soft.push({ softContainsForStringArray : "Failed", caseSensitive: `${caseSensitive}`, Actual: `${actual}`, expected: `${expected}`, message: `${message}`})
+            await recordSoftFailure({ softContainsForStringArray : "Failed", caseSensitive: `${caseSensitive}`, Actual: `${actual}`, expected: `${expected}`, message: `${message}`})
         }
     }
 
@@ -66,24 +82,189 @@ class CustomAssert {
             await logger.info(`softContainsOneOfThem :: ${message} {Actual : [${actual}] - Expected One Of Them [${expected}]}`)
         }else{
             await logger.error(`softContainsOneOfThem :: ${message} {Actual : [${actual}] - Expected One Of Them [${expected}]}`)
-            testContext.assertsJson.soft.push({ softContainsForStringArray : "Failed", caseSensitive: `${caseSensitive}`, Actual: `${actual}`, expected: `${expected}`, message: `${message}`}) 
+            await recordSoftFailure({ softContainsForStringArray : "Failed", caseSensitive: `${caseSensitive}`, Actual: `${actual}`, expected: `${expected}`, message: `${message}`})
         }
     }
 
 
     async hardAssert(actual: any, expected: any, logMsg: string){
         await logger.error(`hardAssert :: ${logMsg} {Actual : [${actual}] - Expected [${expected}]}`)
-        expect(expected, `hardAssert :: ${logMsg} \n{Actual : [${actual}] - Expected [${expected}]}`).toEqual(actual)
+        try {
+            expect(expected, `hardAssert :: ${logMsg} \n{Actual : [${actual}] - Expected [${expected}]}`).toEqual(actual)
+        } catch (error) {
+            await this.recordHardFailure('hardAssert', actual, expected, logMsg, error)
+            throw error
+        }
     }
 
     async hardContains(actual: string, expected: string, message: string){
         await logger.error(`hardContains :: ${message} {Actual : [${actual}] - Expected [${expected}]}`)
-        expect(actual, `hardContains :: ${expected} \n{Actual : [${actual}] - Expected [${expected}]}`).toContain(expected)
+        try {
+            expect(actual, `hardContains :: ${expected} \n{Actual : [${actual}] - Expected [${expected}]}`).toContain(expected)
+        } catch (error) {
+            await this.recordHardFailure('hardContains', actual, expected, message, error)
+            throw error
+        }
     }
 
     async hardNotContains(actual: string, expected: string, message: string){
         await logger.error(`hardNotContains :: ${message} {Actual : [${actual}] - Expected [${expected}]}`)
-        expect(actual, `hardNotContains :: ${expected} \n{Actual : [${actual}] - Expected [${expected}]}`).not.toContain(expected)
+        try {
+            expect(actual, `hardNotContains :: ${expected} \n{Actual : [${actual}] - Expected [${expected}]}`).not.toContain(expected)
+        } catch (error) {
+            await this.recordHardFailure('hardNotContains', actual, expected, message, error)
+            throw error
+        }
+    }
+
+
+    // Shared reporting of the structured checks below: logs the outcome and on failure records the machine readable
+    // diff as a soft failure, or records it as a hard failure and fails the test
+    protected async report(assertion: string, passed: boolean, actual: any, expected: any, message: string, diff: any, hard: boolean){
+        const text = `${assertion} :: ${message} {Actual : [${this.stringify(actual)}] - Expected [${this.stringify(expected)}]}`
+        if (passed){
+            await logger.info(text)
+            return
+        }
+        await logger.error(`${text} diff: ${JSON.stringify(diff)}`)
+        if (!hard){
+            await recordSoftFailure({ [assertion] : "Failed", Actual: this.stringify(actual), expected: this.stringify(expected), message: `${message}`, diff: diff})
+            return
+        }
+        try {
+            expect(passed, `${text} \ndiff: ${JSON.stringify(diff, null, 2)}`).toBe(true)
+        } catch (error) {
+            await this.recordHardFailure(assertion, this.stringify(actual), this.stringify(expected), message, error, diff)
+            throw error
+        }
+    }
+
+    protected stringify(value: any){
+        return value !== null && typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : `${value}`
+    }
+
+    protected toNumber(value: any){
+        return typeof value === 'number' ? value : Number(`${value}`.replace(/[,$\s]/g, ''))
+    }
+
+    protected async numberEquals(assertion: string, actual: any, expected: any, tolerance: number, message: string, hard: boolean){
+        const difference = Math.abs(this.toNumber(actual) - this.toNumber(expected))
+        const passed = !isNaN(difference) && difference <= tolerance
+        await this.report(assertion, passed, actual, expected, message, { difference: isNaN(difference) ? 'NaN' : difference, tolerance: tolerance }, hard)
+    }
+
+    async softNumberEquals(actual: any, expected: any, message: string, tolerance: number = 0){
+        await this.numberEquals('softNumberEquals', actual, expected, tolerance, message, false)
+    }
+
+    async hardNumberEquals(actual: any, expected: any, message: string, tolerance: number = 0){
+        await this.numberEquals('hardNumberEquals', actual, expected, tolerance, message, true)
+    }
+
+    protected async numberInRange(assertion: string, actual: any, min: number, max: number, message: string, hard: boolean){
+        const value = this.toNumber(actual)
+        const passed = !isNaN(value) && value >= min && value <= max
+        await this.report(assertion, passed, actual, `[${min}, ${max}]`, message, { min: min, max: max, below: value < min, above: value > max }, hard)
+    }
+
+    async softNumberInRange(actual: any, min: number, max: number, message: string){
+        await this.numberInRange('softNumberInRange', actual, min, max, message, false)
+    }
+
+    async hardNumberInRange(actual: any, min: number, max: number, message: string){
+        await this.numberInRange('hardNumberInRange', actual, min, max, message, true)
+    }
+
+    protected async dateEquals(assertion: string, actual: string | Date, expected: string | Date, message: string, options: { format?: string, expectedFormat?: string, toleranceMs?: number }, hard: boolean){
+        const tolerance = options?.toleranceMs ?? 0
+        let actualDate: Date, expectedDate: Date
+        try {
+            actualDate = actual instanceof Date ? actual : options?.format ? parseDate(actual, options.format) : new Date(actual)
+            expectedDate = expected instanceof Date ? expected : (options?.expectedFormat ?? options?.format) ? parseDate(expected, options?.expectedFormat ?? options?.format) : new Date(expected)
+        } catch (error) {
+            await this.report(assertion, false, actual, expected, message, { error: error.message }, hard)
+            return
+        }
+        const difference = Math.abs(actualDate.getTime() - expectedDate.getTime())
+        const passed = !isNaN(difference) && difference <= tolerance
+        await this.report(assertion, passed, actual, expected, message, { actual: isNaN(actualDate.getTime()) ? 'Invalid Date' : actualDate.toISOString(), expected: isNaN(expectedDate.getTime()) ? 'Invalid Date' : expectedDate.toISOString(), differenceMs: isNaN(difference) ? 'NaN' : difference, toleranceMs: tolerance }, hard)
+    }
+
+    async softDateEquals(actual: string | Date, expected: string | Date, message: string, options?: { format?: string, expectedFormat?: string, toleranceMs?: number }){
+        await this.dateEquals('softDateEquals', actual, expected, message, options, false)
+    }
+
+    async hardDateEquals(actual: string | Date, expected: string | Date, message: string, options?: { format?: string, expectedFormat?: string, toleranceMs?: number }){
+        await this.dateEquals('hardDateEquals', actual, expected, message, options, true)
+    }
+
+    protected async matches(assertion: string, actual: any, pattern: RegExp | string, message: string, hard: boolean){
+        const regex = pattern instanceof RegExp ? pattern : new RegExp(pattern)
+        const passed = regex.test(`${actual}`)
+        await this.report(assertion, passed, actual, regex.toString(), message, { pattern: regex.source, flags: regex.flags }, hard)
+    }
+
+    async softMatches(actual: any, pattern: RegExp | string, message: string){
+        await this.matches('softMatches', actual, pattern, message, false)
+    }
+
+    async hardMatches(actual: any, pattern: RegExp | string, message: string){
+        await this.matches('hardMatches', actual, pattern, message, true)
+    }
+
+    protected async deepEquals(assertion: string, actual: any, expected: any, message: string, hard: boolean){
+        const diff: DiffEntry[] = jsonDiff(actual, expected)
+        await this.report(assertion, diff.length === 0, actual, expected, message, diff, hard)
+    }
+
+    async softJsonEquals(actual: any, expected: any, message: string){
+        await this.deepEquals('softJsonEquals', actual, expected, message, false)
+    }
+
+    async hardJsonEquals(actual: any, expected: any, message: string){
+        await this.deepEquals('hardJsonEquals', actual, expected, message, true)
+    }
+
+    protected async unorderedEquals(assertion: string, actual: any[], expected: any[], message: string, hard: boolean){
+        const diff = unorderedDiff(actual, expected)
+        await this.report(assertion, diff.missing.length === 0 && diff.unexpected.length === 0, actual, expected, message, diff, hard)
+    }
+
+    async softArrayEqualsIgnoreOrder(actual: any[], expected: any[], message: string){
+        await this.unorderedEquals('softArrayEqualsIgnoreOrder', actual, expected, message, false)
+    }
+
+    async hardArrayEqualsIgnoreOrder(actual: any[], expected: any[], message: string){
+        await this.unorderedEquals('hardArrayEqualsIgnoreOrder', actual, expected, message, true)
+    }
+
+    protected async subset(assertion: string, actual: any, expectedSubset: any, message: string, hard: boolean){
+        const diff: DiffEntry[] = subsetDiff(actual, expectedSubset)
+        await this.report(assertion, diff.length === 0, actual, expectedSubset, message, diff, hard)
+    }
+
+    // Passes when every item (array) or key (object, deep) of the expected subset is present in actual
+    async softContainsSubset(actual: any, expectedSubset: any, message: string){
+        await this.subset('softContainsSubset', actual, expectedSubset, message, false)
+    }
+
+    async hardContainsSubset(actual: any, expectedSubset: any, message: string){
+        await this.subset('hardContainsSubset', actual, expectedSubset, message, true)
+    }
+
+    protected async tableEquals(assertion: string, actual: TableSnapshot, expected: TableSnapshot, message: string, options: TableCompareOptions, hard: boolean){
+        const comparison = compareSnapshots(actual, expected, options)
+        const summary = (snapshot: TableSnapshot) => `${snapshot.rows.length} rows x [${snapshot.headers.join(', ')}]`
+        await this.report(assertion, comparison.passed, summary(actual), summary(expected), message, comparison, hard)
+    }
+
+    // Compares table data by column name, every mismatching cell is reported with its row and column
+    async softTableEquals(actual: TableSnapshot, expected: TableSnapshot, message: string, options?: TableCompareOptions){
+        await this.tableEquals('softTableEquals', actual, expected, message, options ?? {}, false)
+    }
+
+    async hardTableEquals(actual: TableSnapshot, expected: TableSnapshot, message: string, options?: TableCompareOptions){
+        await this.tableEquals('hardTableEquals', actual, expected, message, options ?? {}, true)
     }
 }
 
@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+import { ConfigValidationError, loadConfig } from './config';
+
+
+// Copies project.config.json into the output folder of the test with the changes applied
+function writeConfig(folder: string, changes: Record<string, any>, overlays?: Record<string, Record<string, any>>) {
+    const fs = require("fs");
+    const base = JSON.parse(fs.readFileSync(`${__dirname}/project.config.json`, 'utf-8'));
+    for (const key of Object.keys(changes)) {
+        if (changes[key] === undefined) delete base[key];
+        else base[key] = changes[key];
+    }
+    fs.mkdirSync(folder, { recursive: true });
+    fs.writeFileSync(`${folder}/project.config.json`, JSON.stringify(base), 'utf-8');
+    for (const env of Object.keys(overlays ?? {})) {
+        fs.writeFileSync(`${folder}/project.config.${env}.json`, JSON.stringify(overlays[env]), 'utf-8');
+    }
+    return folder;
+}
+
+function problemsOf(load: () => any): string[] {
+    try {
+        load();
+    } catch (error) {
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        return error.problems;
+    }
+    throw new Error('expected a ConfigValidationError');
+}
+
+test.describe('loadConfig', () => {
+    test('loads the project config', async () => {
+        const config = loadConfig({ configDir: __dirname, environment: {} });
+        expect(config.TABLE_LOAD_TIMEOUT).toBeGreaterThan(0);
+        expect(Array.isArray(config.REDACTION_FIELDS)).toBe(true);
+    });
+
+    test('layers the environment file and then the environment variables over the base file', async ({}, testInfo) => {
+        const configDir = writeConfig(testInfo.outputPath('config'), { ASSERTION_TIMEOUT: 10000 }, { qa: { ASSERTION_TIMEOUT: 20000, LOG_LEVEL: 'debug' } });
+        const config = loadConfig({ configDir, environment: { TEST_ENV: 'qa', LOG_LEVEL: 'warn' } });
+        expect(config.ASSERTION_TIMEOUT).toBe(20000);
+        expect(config.LOG_LEVEL).toBe('warn');
+    });
+
+    test('converts environment overrides to the type of the key', async () => {
+        const config = loadConfig({ configDir: __dirname, environment: {
+            TABLE_LOAD_TIMEOUT: '5000',
+            ON_FAILURE_SCREENSHOT: 'FALSE',
+            NOTIFY_SINKS: 'slack, file,',
+            REDACTION_FIELDS: '["password", "ssn"]'
+        } });
+        expect(config.TABLE_LOAD_TIMEOUT).toBe(5000);
+        expect(config.ON_FAILURE_SCREENSHOT).toBe(false);
+        expect(config.NOTIFY_SINKS).toEqual(['slack', 'file']);
+        expect(config.REDACTION_FIELDS).toEqual(['password', 'ssn']);
+    });
+
+    test('reports every invalid environment override', async () => {
+        const problems = problemsOf(() => loadConfig({ configDir: __dirname, environment: {
+            TABLE_LOAD_TIMEOUT: 'soon',
+            ON_FAILURE_SCREENSHOT: 'yes',
+            REDACTION_FIELDS: '[password]',
+            LOG_LEVEL: 'verbose',
+            ASSERTION_TIMEOUT: '-1'
+        } }));
+        expect(problems).toEqual(expect.arrayContaining([
+            'TABLE_LOAD_TIMEOUT: environment override [soon] is not a number',
+            'ON_FAILURE_SCREENSHOT: environment override [yes] is not true/false',
+            'REDACTION_FIELDS: environment override is not a valid JSON array',
+            'LOG_LEVEL: expected one of error, warn, info, debug but got [verbose]',
+            'ASSERTION_TIMEOUT: expected a positive number but got [-1]'
+        ]));
+    });
+
+    test('reports missing, unknown and mistyped keys of the files', async ({}, testInfo) => {
+        const configDir = writeConfig(testInfo.outputPath('config'), { TABLE_LOAD_TIMEOUT: undefined, LOGIN_USER_DETAILS_JSONFILEPATH: '/login.json', ASSERTION_TIMEOUT: '10s' });
+        const problems = problemsOf(() => loadConfig({ configDir, environment: {} }));
+        expect(problems).toEqual(expect.arrayContaining([
+            'TABLE_LOAD_TIMEOUT: missing',
+            'LOGIN_USER_DETAILS_JSONFILEPATH: unknown key',
+            'ASSERTION_TIMEOUT: expected number but got string ["10s"]'
+        ]));
+    });
+
+    test('rejects an unknown TEST_ENV', async () => {
+        expect(problemsOf(() => loadConfig({ configDir: __dirname, environment: { TEST_ENV: 'prod' } }))).toEqual(['TEST_ENV: [prod] is not one of dev, qa, stage']);
+    });
+});
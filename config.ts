@@ -0,0 +1,241 @@
+import { LaunchProfile } from './launch.profiles';
+
+
+/*
+Typed project configuration. The base values come from project.config.json, are layered with the overlay of the
+environment named by TEST_ENV (project.config.dev.json, project.config.qa.json, project.config.stage.json) and finally
+with environment variables named after the keys themselves (for example PAGE_LOAD_TIMEOUT=30000, NOTIFY_SINKS=slack,file;
+objects and arrays of anything but plain words are given as JSON). The merged result is validated against the schema
+below when the module is first imported, so a missing or mistyped key stops the run with one report listing every
+problem instead of failing somewhere in the middle of a test.
+*/
+
+
+export type ProjectConfig = {
+    TEST_DATA_TXN_PATH: string,
+    TEST_TXN_DATA_FILE_NAME: string,
+    REF_DATA_PATH: string,
+    SERVICE_ACCOUNT: string,
+    RUN_TIME_DATA_PATH: string,
+    RUNTIME_RESULTS_PATH: string,
+    RUNTIME_STORE_RETENTION_HOURS: number,
+    TEST_DATA_AUTHS_FACILITY_VALIDATION: string,
+    FACILITY_VALIDATION_DATA_FILE: string,
+    AUTHS_DATA_FILE: string,
+    FACILITY_VALIDATION_SHEET: string,
+    AUTHS_SHEET: string,
+    DATA_RUN_COLUMN: string,
+    DATA_TAG_COLUMN: string,
+    DATA_TITLE_COLUMN: string,
+    DATA_RESULT_COLUMN: string,
+    DATA_TAGS: string[],
+    DEFAULT_WAIT_TIME: number,
+    PAGE_LOAD_TIMEOUT: number,
+    ELEMENT_WAIT_FOR_ACTION: number,
+    NAVIGATION_TIMEOUT: number,
+    URL_WAIT_TIMEOUT: number,
+    TABLE_LOAD_TIMEOUT: number,
+    ASSERTION_TIMEOUT: number,
+    ASSERTION_POLL_INTERVAL: number,
+    CASE_CREATION_MAX_TIMEOUT_IN_SECONDS: number,
+    CREDENTIAL_VAULT_PATH: string,
+    REDACTION_PATTERNS: string[],
+    REDACTION_FIELDS: string[],
+    REDACTION_MASK_SELECTORS: string[],
+    ON_FAILURE_SCREENSHOT: boolean,
+    LOG_LEVEL: string,
+    RETRY_ENABLED: boolean,
+    RETRY_MAX_ATTEMPTS: number,
+    RETRY_BACKOFF_MS: number,
+    RETRY_BACKOFF_MULTIPLIER: number,
+    RETRY_ERRORS: string[],
+    NOTIFY_SINKS: string[],
+    NOTIFY_MESSAGE_TEMPLATE: string,
+    NOTIFY_TOP_FAILURES: number,
+    NOTIFY_REPORT_URL: string,
+    NOTIFY_FILE_PATH: string,
+    NOTIFY_RETRY_ATTEMPTS: number,
+    NOTIFY_RETRY_BACKOFF_MS: number,
+    NOTIFY_TIMEOUT_MS: number,
+    DEFAULT_LAUNCH_PROFILE: string,
+    LAUNCH_PROFILES: { [name: string]: LaunchProfile }
+}
+
+type ConfigValueType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+const schema: { [K in keyof ProjectConfig]: { type: ConfigValueType, positive?: boolean, oneOf?: string[] } } = {
+    TEST_DATA_TXN_PATH: { type: 'string' },
+    TEST_TXN_DATA_FILE_NAME: { type: 'string' },
+    REF_DATA_PATH: { type: 'string' },
+    SERVICE_ACCOUNT: { type: 'string' },
+    RUN_TIME_DATA_PATH: { type: 'string' },
+    RUNTIME_RESULTS_PATH: { type: 'string' },
+    RUNTIME_STORE_RETENTION_HOURS: { type: 'number', positive: true },
+    TEST_DATA_AUTHS_FACILITY_VALIDATION: { type: 'string' },
+    FACILITY_VALIDATION_DATA_FILE: { type: 'string' },
+    AUTHS_DATA_FILE: { type: 'string' },
+    FACILITY_VALIDATION_SHEET: { type: 'string' },
+    AUTHS_SHEET: { type: 'string' },
+    DATA_RUN_COLUMN: { type: 'string' },
+    DATA_TAG_COLUMN: { type: 'string' },
+    DATA_TITLE_COLUMN: { type: 'string' },
+    DATA_RESULT_COLUMN: { type: 'string' },
+    DATA_TAGS: { type: 'array' },
+    DEFAULT_WAIT_TIME: { type: 'number', positive: true },
+    PAGE_LOAD_TIMEOUT: { type: 'number', positive: true },
+    ELEMENT_WAIT_FOR_ACTION: { type: 'number', positive: true },
+    NAVIGATION_TIMEOUT: { type: 'number', positive: true },
+    URL_WAIT_TIMEOUT: { type: 'number', positive: true },
+    TABLE_LOAD_TIMEOUT: { type: 'number', positive: true },
+    ASSERTION_TIMEOUT: { type: 'number', positive: true },
+    ASSERTION_POLL_INTERVAL: { type: 'number', positive: true },
+    CASE_CREATION_MAX_TIMEOUT_IN_SECONDS: { type: 'number', positive: true },
+    CREDENTIAL_VAULT_PATH: { type: 'string' },
+    REDACTION_PATTERNS: { type: 'array' },
+    REDACTION_FIELDS: { type: 'array' },
+    REDACTION_MASK_SELECTORS: { type: 'array' },
+    ON_FAILURE_SCREENSHOT: { type: 'boolean' },
+    LOG_LEVEL: { type: 'string', oneOf: ['error', 'warn', 'info', 'debug'] },
+    RETRY_ENABLED: { type: 'boolean' },
+    RETRY_MAX_ATTEMPTS: { type: 'number', positive: true },
+    RETRY_BACKOFF_MS: { type: 'number' },
+    RETRY_BACKOFF_MULTIPLIER: { type: 'number', positive: true },
+    RETRY_ERRORS: { type: 'array' },
+    NOTIFY_SINKS: { type: 'array' },
+    NOTIFY_MESSAGE_TEMPLATE: { type: 'string' },
+    NOTIFY_TOP_FAILURES: { type: 'number', positive: true },
+    NOTIFY_REPORT_URL: { type: 'string' },
+    NOTIFY_FILE_PATH: { type: 'string' },
+    NOTIFY_RETRY_ATTEMPTS: { type: 'number', positive: true },
+    NOTIFY_RETRY_BACKOFF_MS: { type: 'number' },
+    NOTIFY_TIMEOUT_MS: { type: 'number', positive: true },
+    DEFAULT_LAUNCH_PROFILE: { type: 'string' },
+    LAUNCH_PROFILES: { type: 'object' }
+};
+
+export const CONFIG_ENVIRONMENTS = ['dev', 'qa', 'stage'];
+
+export class ConfigValidationError extends Error {
+    problems: string[];
+
+    constructor(problems: string[], sources: string[]) {
+        super(`Invalid project configuration (sources: ${sources.join(' -> ')}):\n  - ${problems.join('\n  - ')}`);
+        this.name = 'ConfigValidationError';
+        this.problems = problems;
+    }
+}
+
+function readConfigFile(filePath: string) {
+    let fs = require("fs");
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        throw new ConfigValidationError([`unable to read ${filePath}: ${error.message}`], [filePath]);
+    }
+}
+
+// Converts an environment variable string to the type the schema expects for the key
+function parseEnvValue(key: string, value: string, type: ConfigValueType, problems: string[]) {
+    switch (type) {
+        case 'number':
+            if (value.trim() === '' || isNaN(Number(value))) {
+                problems.push(`${key}: environment override [${value}] is not a number`);
+                return value;
+            }
+            return Number(value);
+        case 'boolean':
+            if (!['true', 'false'].includes(value.trim().toLowerCase())) {
+                problems.push(`${key}: environment override [${value}] is not true/false`);
+                return value;
+            }
+            return value.trim().toLowerCase() === 'true';
+        case 'array':
+            // A JSON array, or for lists of plain words a comma separated value: DATA_TAGS=smoke,regression
+            if (!value.trim().startsWith('[')) {
+                return value.split(',').map((item) => item.trim()).filter((item) => item !== '');
+            }
+            try {
+                return JSON.parse(value);
+            } catch (error) {
+                problems.push(`${key}: environment override is not a valid JSON array`);
+                return value;
+            }
+        case 'object':
+            try {
+                return JSON.parse(value);
+            } catch (error) {
+                problems.push(`${key}: environment override is not valid JSON`);
+                return value;
+            }
+        default:
+            return value;
+    }
+}
+
+function matchesType(value: any, type: ConfigValueType) {
+    switch (type) {
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+export function loadConfig(options?: { env?: string, configDir?: string, environment?: NodeJS.ProcessEnv }): ProjectConfig {
+    let fs = require("fs");
+    const configDir = options?.configDir ?? __dirname;
+    const environment = options?.environment ?? process.env;
+    const testEnv = options?.env ?? environment.TEST_ENV;
+    const problems: string[] = [];
+    const sources = [`${configDir}/project.config.json`];
+
+    let merged = readConfigFile(sources[0]);
+    if (testEnv !== undefined && testEnv !== '') {
+        const overlayFile = `${configDir}/project.config.${testEnv}.json`;
+        if (!CONFIG_ENVIRONMENTS.includes(testEnv)) {
+            problems.push(`TEST_ENV: [${testEnv}] is not one of ${CONFIG_ENVIRONMENTS.join(', ')}`);
+        } else if (fs.existsSync(overlayFile)) {
+            merged = { ...merged, ...readConfigFile(overlayFile) };
+            sources.push(overlayFile);
+        }
+    }
+
+    for (const key of Object.keys(schema) as (keyof ProjectConfig)[]) {
+        const value = environment[key];
+        if (value !== undefined) {
+            merged[key] = parseEnvValue(key, value, schema[key].type, problems);
+            if (!sources.includes('env')) sources.push('env');
+        }
+    }
+
+    for (const key of Object.keys(schema) as (keyof ProjectConfig)[]) {
+        const rule = schema[key];
+        const value = merged[key];
+        if (value === undefined) {
+            problems.push(`${key}: missing`);
+        } else if (!matchesType(value, rule.type)) {
+            problems.push(`${key}: expected ${rule.type} but got ${Array.isArray(value) ? 'array' : typeof value} [${JSON.stringify(value)}]`);
+        } else if (rule.positive && value <= 0) {
+            problems.push(`${key}: expected a positive number but got [${value}]`);
+        } else if (rule.oneOf !== undefined && !rule.oneOf.includes(value)) {
+            problems.push(`${key}: expected one of ${rule.oneOf.join(', ')} but got [${value}]`);
+        }
+    }
+    for (const key of Object.keys(merged)) {
+        if (!(key in schema)) problems.push(`${key}: unknown key`);
+    }
+    if (problems.length > 0) {
+        throw new ConfigValidationError(problems, sources);
+    }
+    return merged as ProjectConfig;
+}
+
+// Resolves a project relative path from the config ('/src/...') against the working directory
+export function resolveProjectPath(path: string) {
+    if (path === undefined || path === '') return undefined;
+    return path.startsWith(process.cwd()) ? path : `${process.cwd()}${path}`;
+}
+
+export default loadConfig();
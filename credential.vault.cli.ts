@@ -0,0 +1,123 @@
+import { Credentials, VAULT_KEY_ENV, decryptVault, encryptVault, getVaultFile } from './credential.vault';
+
+
+/*
+Maintenance of the encrypted credential vault, with the key taken from CREDENTIAL_VAULT_KEY:
+    npx ts-node credential.vault.cli.ts list
+    npx ts-node credential.vault.cli.ts set qa/admin username password       (prompts for each value without echoing it)
+    printf 'username=jdoe\npassword=...\n' | npx ts-node credential.vault.cli.ts set qa/admin
+    npx ts-node credential.vault.cli.ts remove qa/admin
+    npx ts-node credential.vault.cli.ts import <plain.json> [--env qa]
+`set` never takes values from the command line, where they would end up in the shell history and the process list;
+piped input is read as field=value lines. `import` encrypts a plain JSON file of { "<role>": { ...fields } } (for
+example the former login.json or dbcredentials.json), prefixing every role with the environment when --env is given.
+Delete the plain file afterwards. Values are never printed.
+*/
+
+
+function readVault(passphrase: string): Record<string, Credentials> {
+    let fs = require("fs");
+    const filePath = getVaultFile();
+    return fs.existsSync(filePath) ? decryptVault(JSON.parse(fs.readFileSync(filePath, 'utf-8')), passphrase) : {};
+}
+
+function writeVault(entries: Record<string, Credentials>, passphrase: string) {
+    let fs = require("fs");
+    const path = require("path");
+    const filePath = getVaultFile();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(encryptVault(entries, passphrase), null, 2), 'utf-8');
+    console.log(`Credential vault ${filePath} written with ${Object.keys(entries).length} entries`);
+}
+
+function readStdin(): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let text = '';
+        process.stdin.setEncoding('utf-8');
+        process.stdin.on('data', (chunk: string) => text += chunk);
+        process.stdin.on('end', () => resolve(text));
+        process.stdin.on('error', reject);
+    });
+}
+
+// Asks for a value on the terminal; what is typed is not echoed
+function promptHidden(question: string): Promise<string> {
+    const readline = require("readline");
+    const { Writable } = require("stream");
+    let muted = false;
+    const output = new Writable({
+        write: (chunk: any, encoding: BufferEncoding, callback: () => void) => {
+            if (!muted) process.stdout.write(chunk, encoding);
+            callback();
+        }
+    });
+    const prompt = readline.createInterface({ input: process.stdin, output: output, terminal: true });
+    return new Promise((resolve) => {
+        prompt.question(question, (answer: string) => {
+            prompt.close();
+            process.stdout.write('\n');
+            resolve(answer);
+        });
+        muted = true;
+    });
+}
+
+// Values of the fields to set: prompted for on a terminal, else field=value lines piped to stdin
+async function readFields(fieldNames: string[]): Promise<Credentials> {
+    const fields: Credentials = {};
+    if (fieldNames.some((name) => name.includes('='))) {
+        throw new Error('values are not taken from the command line, name the fields and type the values at the prompt or pipe field=value lines');
+    }
+    if (process.stdin.isTTY) {
+        if (fieldNames.length === 0) throw new Error('usage: set <env/role> field ...');
+        for (const name of fieldNames) {
+            fields[name] = await promptHidden(`${name}: `);
+        }
+        return fields;
+    }
+    for (const line of (await readStdin()).split(/\r?\n/)) {
+        if (line.trim() === '') continue;
+        const separator = line.indexOf('=');
+        if (separator <= 0) throw new Error(`expected field=value but got [${line.split('=')[0]}...]`);
+        fields[line.substring(0, separator).trim()] = line.substring(separator + 1);
+    }
+    return fields;
+}
+
+async function run(args: string[]) {
+    const passphrase = process.env[VAULT_KEY_ENV];
+    if (passphrase === undefined || passphrase === '') throw new Error(`${VAULT_KEY_ENV} is not set`);
+    const [command, target, ...rest] = args;
+    const entries = readVault(passphrase);
+    switch (command) {
+        case 'list':
+            Object.keys(entries).sort().forEach((key) => console.log(`${key}: ${Object.keys(entries[key]).join(', ')}`));
+            return;
+        case 'set': {
+            if (target === undefined) throw new Error('usage: set <env/role> field ...');
+            const fields = await readFields(rest);
+            if (Object.keys(fields).length === 0) throw new Error(`no fields given for [${target}]`);
+            entries[target] = { ...(entries[target] ?? {}), ...fields };
+            return writeVault(entries, passphrase);
+        }
+        case 'remove':
+            if (!(target in entries)) throw new Error(`no entry [${target}]`);
+            delete entries[target];
+            return writeVault(entries, passphrase);
+        case 'import': {
+            let fs = require("fs");
+            const envIndex = rest.indexOf('--env');
+            const prefix = envIndex >= 0 ? `${rest[envIndex + 1]}/` : '';
+            const plain: Record<string, Credentials> = JSON.parse(fs.readFileSync(target, 'utf-8'));
+            Object.keys(plain).forEach((role) => entries[`${prefix}${role}`] = plain[role]);
+            return writeVault(entries, passphrase);
+        }
+        default:
+            throw new Error(`unknown command [${command}], use list, set, remove or import`);
+    }
+}
+
+run(process.argv.slice(2)).catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+});
@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+import vault, { VAULT_KEY_ENV, decryptVault, encryptVault } from './credential.vault';
+
+
+const entries = { 'qa/admin': { username: 'qa.admin', password: 'Qa!Pass1' }, admin: { username: 'admin', password: 'Pass1', email: 'admin@example.com' } };
+
+test.describe('vault file', () => {
+    test('decrypts what it encrypted', async () => {
+        const file = encryptVault(entries, 'passphrase');
+        expect(JSON.stringify(file)).not.toContain('Qa!Pass1');
+        expect(decryptVault(file, 'passphrase')).toEqual(entries);
+    });
+
+    test('uses a fresh salt and iv for every write', async () => {
+        const first = encryptVault(entries, 'passphrase');
+        const second = encryptVault(entries, 'passphrase');
+        expect(first.salt).not.toBe(second.salt);
+        expect(first.data).not.toBe(second.data);
+    });
+
+    test('rejects a wrong key and a tampered file', async () => {
+        const file = encryptVault(entries, 'passphrase');
+        expect(() => decryptVault(file, 'other')).toThrow(`unable to decrypt the credential vault, check ${VAULT_KEY_ENV}`);
+        const data = Buffer.from(file.data, 'base64');
+        data[0] ^= 1;
+        expect(() => decryptVault({ ...file, data: data.toString('base64') }, 'passphrase')).toThrow('unable to decrypt');
+    });
+});
+
+test.describe('CredentialVault', () => {
+    const saved: Record<string, string> = {};
+    let folder: string;
+    let vaultFile: string;
+    const variables: Record<string, string> = { [VAULT_KEY_ENV]: 'passphrase', TEST_ENV: 'qa', CRED_QA_ADMIN_EMAIL: 'qa.admin@example.com', CRED_DB_CONNECT_STRING: 'db:1521/svc', CRED_DB_USER: 'app' };
+
+    test.beforeAll(async () => {
+        const fs = require("fs");
+        const os = require("os");
+        const path = require("path");
+        // A vault of its own, the one of CREDENTIAL_VAULT_PATH is never touched
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'credential-vault-'));
+        vaultFile = path.join(folder, 'vault.json');
+        fs.writeFileSync(vaultFile, JSON.stringify(encryptVault(entries, 'passphrase')), 'utf-8');
+        for (const name of Object.keys(variables)) {
+            saved[name] = process.env[name];
+            process.env[name] = variables[name];
+        }
+        vault.reload({ filePath: vaultFile });
+    });
+
+    test.afterAll(async () => {
+        const fs = require("fs");
+        fs.rmSync(folder, { recursive: true, force: true });
+        for (const name of Object.keys(variables)) {
+            if (saved[name] === undefined) delete process.env[name];
+            else process.env[name] = saved[name];
+        }
+        vault.reload();
+    });
+
+    test('takes the fields of the environment entry over the shared entry and the environment variables', async () => {
+        expect(vault.get('admin')).toEqual({ username: 'qa.admin', password: 'Qa!Pass1', email: 'admin@example.com' });
+        expect(vault.get('admin', { env: 'dev' })).toEqual({ username: 'admin', password: 'Pass1', email: 'admin@example.com' });
+    });
+
+    test('falls back to the environment variables for a role the vault does not hold', async () => {
+        expect(vault.getDbConfig('db')).toEqual({ user: 'app', connectString: 'db:1521/svc' });
+    });
+
+    test('fails for an unknown role and for a login without password', async () => {
+        expect(() => vault.get('auditor')).toThrow('Credentials [auditor]: not found for environment [qa]');
+        expect(() => vault.getLogin('db')).toThrow('a login needs both username and password');
+        expect(vault.has('auditor')).toBe(false);
+    });
+
+    test('keeps failing while the vault does not decrypt', async () => {
+        process.env[VAULT_KEY_ENV] = 'other';
+        vault.reload({ filePath: vaultFile });
+        try {
+            expect(() => vault.get('admin')).toThrow('unable to decrypt the credential vault');
+            expect(() => vault.get('admin')).toThrow('unable to decrypt the credential vault');
+        } finally {
+            process.env[VAULT_KEY_ENV] = 'passphrase';
+            vault.reload({ filePath: vaultFile });
+        }
+        expect(vault.get('admin').username).toBe('qa.admin');
+    });
+});
@@ -0,0 +1,156 @@
+import config, { resolveProjectPath } from './config';
+import logger from './logger';
+
+
+/*
+Credentials for the application logins and the databases, resolved by role ("admin", "nurse", "umdb") and environment.
+The primary source is an encrypted vault file (CREDENTIAL_VAULT_PATH) holding a JSON object keyed "<env>/<role>" or
+just "<role>" for values shared by every environment. It is encrypted with AES-256-GCM under a key derived from the
+CREDENTIAL_VAULT_KEY environment variable, which the CI pipeline injects and nobody commits.
+Fields the vault does not hold are taken from environment variables, field by field: CRED_<ENV>_<ROLE>_<FIELD> before
+CRED_<ROLE>_<FIELD>, e.g. CRED_QA_ADMIN_PASSWORD, CRED_UMDB_CONNECT_STRING (read as connectString). Likewise a
+"<env>/<role>" entry only overrides the fields of the "<role>" entry it names.
+Every secret field of a resolved credential is registered with the logger, so its value is masked in all log output.
+credential.vault.cli.ts creates and updates the vault file and imports the former plain login and DB credential files.
+*/
+
+
+export type Credentials = Record<string, string>;
+
+export type VaultFile = { version: number, salt: string, iv: string, tag: string, data: string };
+
+export const VAULT_KEY_ENV = 'CREDENTIAL_VAULT_KEY';
+
+// Fields whose values are registered with the logger as secrets
+const SECRET_FIELD = /pass|pwd|secret|token|key|connect/i;
+
+export class CredentialError extends Error {
+    role: string;
+
+    constructor(role: string, message: string) {
+        super(`Credentials [${role}]: ${message}`);
+        this.name = 'CredentialError';
+        this.role = role;
+    }
+}
+
+function deriveKey(passphrase: string, salt: Buffer) {
+    const crypto = require("crypto");
+    return crypto.scryptSync(passphrase, salt, 32);
+}
+
+export function encryptVault(entries: Record<string, Credentials>, passphrase: string): VaultFile {
+    const crypto = require("crypto");
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(entries), 'utf-8'), cipher.final()]);
+    return { version: 1, salt: salt.toString('base64'), iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+}
+
+export function decryptVault(vault: VaultFile, passphrase: string): Record<string, Credentials> {
+    const crypto = require("crypto");
+    const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(passphrase, Buffer.from(vault.salt, 'base64')), Buffer.from(vault.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(vault.tag, 'base64'));
+    try {
+        return JSON.parse(Buffer.concat([decipher.update(Buffer.from(vault.data, 'base64')), decipher.final()]).toString('utf-8'));
+    } catch (error) {
+        throw new Error(`unable to decrypt the credential vault, check ${VAULT_KEY_ENV}`);
+    }
+}
+
+export function getVaultFile() {
+    return resolveProjectPath(config.CREDENTIAL_VAULT_PATH);
+}
+
+function toEnvName(value: string) {
+    return value.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+// CONNECT_STRING -> connectString, the field names the drivers expect
+function toFieldName(envName: string) {
+    return envName.toLowerCase().replace(/_([a-z0-9])/g, (match: string, char: string) => char.toUpperCase());
+}
+
+export default new class CredentialVault {
+    private entries: Record<string, Credentials>;
+    private filePath: string;
+
+    // Decrypted once per worker; without a key or vault file only the environment variables are available. A vault
+    // which fails to decrypt is not cached, every call fails until it is fixed
+    protected loadEntries = () => {
+        if (this.entries !== undefined) return this.entries;
+        let fs = require("fs");
+        const filePath = this.filePath ?? getVaultFile();
+        const passphrase = process.env[VAULT_KEY_ENV];
+        let entries: Record<string, Credentials> = {};
+        if (filePath !== undefined && fs.existsSync(filePath)) {
+            if (passphrase === undefined || passphrase === '') {
+                console.warn(`Credential vault ${filePath} found but ${VAULT_KEY_ENV} is not set, using environment variables only`);
+            } else {
+                entries = decryptVault(JSON.parse(fs.readFileSync(filePath, 'utf-8')), passphrase);
+            }
+        }
+        this.entries = entries;
+        return this.entries;
+    }
+
+    protected fromEnv = (role: string, env: string): Credentials => {
+        const credentials: Credentials = {};
+        const prefixes = [`CRED_${toEnvName(role)}_`];
+        // The environment specific prefix comes last so that its values override the generic ones
+        if (env !== undefined && env !== '') prefixes.push(`CRED_${toEnvName(env)}_${toEnvName(role)}_`);
+        for (const prefix of prefixes) {
+            for (const name of Object.keys(process.env)) {
+                if (name.startsWith(prefix)) credentials[toFieldName(name.substring(prefix.length))] = process.env[name];
+            }
+        }
+        return credentials;
+    }
+
+    // Resolves the credentials of the role for the environment (TEST_ENV by default) and registers their secrets for masking
+    get = (role: string, options?: { env?: string }): Credentials => {
+        const env = options?.env ?? process.env.TEST_ENV;
+        const entries = this.loadEntries();
+        const envEntry = env !== undefined && env !== '' ? entries[`${env}/${role}`] : undefined;
+        const credentials: Credentials = { ...this.fromEnv(role, env), ...entries[role], ...envEntry };
+        if (Object.keys(credentials).length === 0) {
+            throw new CredentialError(role, `not found for environment [${env ?? 'any'}] in the vault or as CRED_* environment variables`);
+        }
+        for (const field of Object.keys(credentials)) {
+            if (SECRET_FIELD.test(field)) logger.registerSecret(credentials[field]);
+        }
+        return credentials;
+    }
+
+    has = (role: string, options?: { env?: string }) => {
+        try {
+            this.get(role, options);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    // Login of an application user, requires username and password
+    getLogin = (role: string, options?: { env?: string }) => {
+        const credentials = this.get(role, options);
+        if (credentials.username === undefined || credentials.password === undefined) {
+            throw new CredentialError(role, 'a login needs both username and password');
+        }
+        return credentials as Credentials & { username: string, password: string };
+    }
+
+    // Connection config for DataBase, e.g. new DataBase('oracle', vault.getDbConfig('umdb'))
+    getDbConfig = (role: string, options?: { env?: string }) => {
+        const { user, username, ...rest } = this.get(role, options);
+        return { user: user ?? username, ...rest };
+    }
+
+    // Drops the decrypted entries, e.g. after the vault file was rewritten; filePath reads another vault file than
+    // CREDENTIAL_VAULT_PATH until the next reload
+    reload = (options?: { filePath?: string }) => {
+        this.entries = undefined;
+        this.filePath = options?.filePath;
+    }
+}
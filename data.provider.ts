@@ -0,0 +1,152 @@
+import { TestInfo, TestType } from '@playwright/test';
+import config, { resolveProjectPath } from './config';
+import logger from './logger';
+import testContext from './testContext';
+import { readCsvSync, readSheetSync, updateCsvCells, updateSheetCells } from './excel.utils';
+import { withFileLock } from './file.utils';
+
+
+/*
+Data driven tests from Excel sheets and CSV files. The first row of the sheet holds the column names and every other
+row becomes one record keyed by them. Rows are selected by the Run flag column (DATA_RUN_COLUMN, "Y", "Yes", "true",
+"1" or "x") and by the tag column (DATA_TAG_COLUMN, comma separated) against the requested tags or DATA_TAGS. Each
+selected row can be registered as its own playwright test, and its outcome written back to DATA_RESULT_COLUMN.
+*/
+
+
+export type DataSource = { file: string, sheet?: string, delimiter?: string }
+
+export type ColumnType = 'string' | 'number' | 'boolean';
+
+export type DataLoadOptions = {
+    runColumn?: string,
+    tagColumn?: string,
+    titleColumn?: string,
+    tags?: string[],
+    ignoreRunFlag?: boolean,
+    columnTypes?: Record<string, ColumnType>,
+    where?: (record: Record<string, any>) => boolean
+}
+
+export type DataRow<T> = { rowIndex: number, title: string, tags: string[], data: T, source: DataSource }
+
+const RUN_VALUES = ['y', 'yes', 'true', '1', 'x'];
+
+export const dataSources = {
+    facilityValidation: (): DataSource => ({ file: `${config.TEST_DATA_AUTHS_FACILITY_VALIDATION}${config.FACILITY_VALIDATION_DATA_FILE}`, sheet: config.FACILITY_VALIDATION_SHEET }),
+    auths: (): DataSource => ({ file: `${config.TEST_DATA_AUTHS_FACILITY_VALIDATION}${config.AUTHS_DATA_FILE}`, sheet: config.AUTHS_SHEET }),
+    txn: (sheet?: string): DataSource => ({ file: `${config.TEST_DATA_TXN_PATH}/${config.TEST_TXN_DATA_FILE_NAME}`, sheet: sheet })
+};
+
+// Paths from the config are project relative ('/src/...'), anything else which exists is used as is
+export function resolveDataFile(file: string) {
+    let fs = require("fs");
+    return fs.existsSync(file) ? file : resolveProjectPath(file.startsWith('/') ? file : `/${file}`);
+}
+
+function isCsv(source: DataSource) {
+    return source.file.toLowerCase().endsWith('.csv');
+}
+
+// Raw rows of the source, blank rows kept for sheets so that row indexes address the same rows on write back
+function readRows(source: DataSource) {
+    const filePath = resolveDataFile(source.file);
+    return isCsv(source) ? readCsvSync(filePath, source.delimiter) : readSheetSync(filePath, source.sheet, { blankRows: true });
+}
+
+function convertCell(value: string, type: ColumnType, column: string, source: DataSource) {
+    switch (type) {
+        case 'number': {
+            if (value.trim() === '') return undefined;
+            const number = Number(value.replace(/[,$\s]/g, ''));
+            if (isNaN(number)) throw new Error(`Column [${column}] of ${source.file} expects a number but got [${value}]`);
+            return number;
+        }
+        case 'boolean':
+            return RUN_VALUES.includes(value.trim().toLowerCase());
+        default:
+            return value;
+    }
+}
+
+function parseTags(value: string) {
+    return `${value ?? ''}`.split(/[,;]/).map((tag) => tag.trim().toLowerCase()).filter((tag) => tag !== '');
+}
+
+// Sync on purpose: rows have to be known while playwright collects the tests of the spec file
+export function loadDataRows<T = Record<string, string>>(source: DataSource, options?: DataLoadOptions): DataRow<T>[] {
+    const [headerRow, ...rows] = readRows(source);
+    if (headerRow === undefined) return [];
+    const headers = headerRow.map((header) => header.trim());
+    const findColumn = (name: string) => headers.findIndex((header) => header.toLowerCase() === name.trim().toLowerCase());
+    const runCol = findColumn(options?.runColumn ?? config.DATA_RUN_COLUMN);
+    const tagCol = findColumn(options?.tagColumn ?? config.DATA_TAG_COLUMN);
+    const titleCol = findColumn(options?.titleColumn ?? config.DATA_TITLE_COLUMN);
+    const requestedTags = (options?.tags ?? config.DATA_TAGS).map((tag) => tag.trim().toLowerCase());
+    const columnTypes = options?.columnTypes ?? {};
+
+    const selected: DataRow<T>[] = [];
+    rows.forEach((row, rowIndex) => {
+        if (row.every((cell) => cell.trim() === '')) return;
+        if (runCol >= 0 && !options?.ignoreRunFlag && !RUN_VALUES.includes((row[runCol] ?? '').trim().toLowerCase())) return;
+        const tags = tagCol >= 0 ? parseTags(row[tagCol]) : [];
+        if (requestedTags.length > 0 && !requestedTags.some((tag) => tags.includes(tag))) return;
+        const record: Record<string, any> = {};
+        headers.forEach((header, col) => {
+            if (header === '') return;
+            const type = Object.keys(columnTypes).find((column) => column.toLowerCase() === header.toLowerCase());
+            record[header] = convertCell(row[col] ?? '', type === undefined ? 'string' : columnTypes[type], header, source);
+        });
+        if (options?.where !== undefined && !options.where(record)) return;
+        const title = titleCol >= 0 && `${row[titleCol]}`.trim() !== '' ? `${row[titleCol]}`.trim() : `row ${rowIndex + 2}`;
+        selected.push({ rowIndex: rowIndex, title: title, tags: tags, data: record as T, source: source });
+    });
+    return selected;
+}
+
+export async function loadData<T = Record<string, string>>(source: DataSource, options?: DataLoadOptions): Promise<T[]> {
+    const rows = loadDataRows<T>(source, options);
+    await logger.info(`Loaded ${rows.length} data row(s) from ${source.file}${source.sheet ? ` [${source.sheet}]` : ''}`);
+    return rows.map((row) => row.data);
+}
+
+// Writes values (by column name) into the source row, columns missing from the header are appended
+export async function writeRowValues(source: DataSource, rowIndex: number, values: Record<string, any>) {
+    const filePath = resolveDataFile(source.file);
+    const updates = Object.keys(values).map((column) => ({ rowIndex: rowIndex, column: column, value: values[column] }));
+    await withFileLock(filePath, async () => {
+        if (isCsv(source)) await updateCsvCells(filePath, updates, source.delimiter);
+        else await updateSheetCells(filePath, source.sheet, updates);
+    });
+}
+
+export async function writeResult(row: DataRow<any>, result: string, options?: { resultColumn?: string, extraValues?: Record<string, any> }) {
+    await writeRowValues(row.source, row.rowIndex, { [options?.resultColumn ?? config.DATA_RESULT_COLUMN]: result, ...(options?.extraValues ?? {}) });
+    await logger.info(`Data row [${row.title}] of ${row.source.file} marked as ${result}`);
+}
+
+/*
+Registers one test per selected row, titled "<title> - <TestName column>". The body gets the typed row and the
+TestInfo; pages come from the framework sessions as in the other tests. With writeBack the row is marked Passed or
+Failed, where recorded soft assertion failures count as Failed.
+*/
+export function dataDrivenTests<T = Record<string, string>>(testType: TestType<any, any>, title: string, source: DataSource,
+    body: (data: T, testInfo: TestInfo, row: DataRow<T>) => Promise<void>, options?: DataLoadOptions & { writeBack?: boolean, resultColumn?: string }) {
+    for (const row of loadDataRows<T>(source, options)) {
+        testType(`${title} - ${row.title}`, async ({}, testInfo: TestInfo) => {
+            testInfo.annotations.push({ type: 'data', description: `${source.file}${source.sheet ? ` [${source.sheet}]` : ''} row ${row.rowIndex + 2}` });
+            row.tags.forEach((tag) => testInfo.annotations.push({ type: 'tag', description: tag }));
+            let failure: any;
+            try {
+                await body(row.data, testInfo, row);
+            } catch (error) {
+                failure = error;
+            }
+            if (options?.writeBack) {
+                const softFailures = testContext.assertsJson?.soft?.length ?? 0;
+                await writeResult(row, failure === undefined && softFailures === 0 ? 'Passed' : 'Failed', { resultColumn: options.resultColumn });
+            }
+            if (failure !== undefined) throw failure;
+        });
+    }
+}
@@ -37,3 +37,33 @@ export function getMMDDYYYYFormatWithHiphen(date: Date) {
     const dd = (date.getDate()).toString();
     return (mm[1] ? mm : "0" + mm[0]) + '-' + (dd[1] ? dd : "0" + dd[0]) + '-' + yyyy
 }
+
+
+export function parseDate(value: string, format: string) {
+    // Supported tokens: YYYY, YY, MM, M, DD, D, HH, H, mm, ss - everything else is matched literally
+    const tokens = ['YYYY', 'YY', 'MM', 'M', 'DD', 'D', 'HH', 'H', 'mm', 'ss'];
+    const order: string[] = [];
+    let pattern = '';
+    for (let i = 0; i < format.length;) {
+        const token = tokens.find((t) => format.startsWith(t, i));
+        if (token) {
+            order.push(token);
+            pattern += token.length === 4 ? '(\\d{4})' : token.length === 2 ? '(\\d{2})' : '(\\d{1,2})';
+            i += token.length;
+        } else {
+            pattern += format[i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+            i++;
+        }
+    }
+    const match = new RegExp(`^${pattern}$`).exec(value.trim());
+    if (match === null) {
+        throw new Error(`Date [${value}] does not match the format [${format}]`);
+    }
+    const parts: { [token: string]: number } = {};
+    order.forEach((token, index) => parts[token[0]] = Number(match[index + 1]) + (token === 'YY' ? 2000 : 0));
+    const date = new Date(parts['Y'] ?? 1970, (parts['M'] ?? 1) - 1, parts['D'] ?? 1, parts['H'] ?? 0, parts['m'] ?? 0, parts['s'] ?? 0);
+    if (date.getMonth() !== (parts['M'] ?? 1) - 1 || date.getDate() !== (parts['D'] ?? 1)) {
+        throw new Error(`Date [${value}] is not a valid calendar date for the format [${format}]`);
+    }
+    return date;
+}
@@ -0,0 +1,86 @@
+import { test, expect } from '@playwright/test';
+import { bindPlaceholders, closeDbAdapters, getDbAdapter } from './db.adapters';
+
+
+test.describe('bindPlaceholders', () => {
+    test('rewrites positions, names and ? to the placeholder of the driver', async () => {
+        expect(bindPlaceholders('select * from t where a = :2 and b = :1', ['x', 'y'], (position) => `$${position}`))
+            .toEqual({ statement: 'select * from t where a = $1 and b = $2', values: ['y', 'x'], names: ['2', '1'] });
+        expect(bindPlaceholders('select * from t where a = :id or b = :id', { id: 7 }, (position, name) => `@${name}`))
+            .toEqual({ statement: 'select * from t where a = @id or b = @id', values: [7, 7], names: ['id', 'id'] });
+    });
+
+    test('leaves literals, quoted identifiers, comments and casts alone', async () => {
+        const statement = `select TO_CHAR(created, 'HH24:MI') "a:b", x::text, $$ :body $$ from t -- :comment\nwhere id = :id /* :other */`;
+        expect(bindPlaceholders(statement, { id: 1 }, () => '?').statement)
+            .toBe(`select TO_CHAR(created, 'HH24:MI') "a:b", x::text, $$ :body $$ from t -- :comment\nwhere id = ? /* :other */`);
+    });
+
+    test('reads backslash escaped quotes only in MySQL literals', async () => {
+        expect(bindPlaceholders(`select 'it\\'s :x' as a, "say \\":y\\"" as b, :id as c`, { id: 1 }, () => '?', { backslashEscapes: true }))
+            .toEqual({ statement: `select 'it\\'s :x' as a, "say \\":y\\"" as b, ? as c`, values: [1], names: ['id'] });
+        expect(bindPlaceholders(`select 'C:\\', :id`, { id: 1 }, () => '?').statement).toBe(`select 'C:\\', ?`);
+    });
+
+    test('fails for a placeholder without value', async () => {
+        expect(() => bindPlaceholders('select :1, :2', ['x'], () => '?')).toThrow('No value bound for :2 at position 2');
+        expect(() => bindPlaceholders('select :id', { name: 'x' }, () => '?')).toThrow('No value bound for :id');
+    });
+});
+
+test.describe('SQLite adapter', () => {
+    test.afterAll(async () => {
+        await closeDbAdapters();
+    });
+
+    test('binds only the placeholders outside of literals and comments', async () => {
+        const adapter = getDbAdapter('sqlite', { filename: ':memory:' });
+        await adapter.execute(`create table notes (id integer, body text)`, undefined, { autoCommit: true });
+        await adapter.execute(`insert into notes values (?, 'at 10:30 or ?'), (?, ?)`, [1, 2, 'plain'], { autoCommit: true });
+        const byPosition = await adapter.execute(`select id, body from notes where id >= ? /* ? */ order by id -- :1`, [1], { autoCommit: true });
+        expect(byPosition.rows).toEqual([{ id: 1, body: 'at 10:30 or ?' }, { id: 2, body: 'plain' }]);
+        const byName = await adapter.execute(`select body, ':id' as literal from notes where id = :id`, { id: 2 }, { autoCommit: true });
+        expect(byName.rows).toEqual([{ body: 'plain', literal: ':id' }]);
+    });
+});
+
+test.describe('SQL Server adapter', () => {
+    // Request of the mssql driver as far as execute uses it, it rejects a parameter declared twice like the driver does
+    function fakePool(inputs: Record<string, any>, statements: string[]) {
+        const request = {
+            input: (name: string, value: any) => {
+                if (name in inputs) throw new Error(`The parameter name ${name} has already been declared. Parameter names must be unique`);
+                inputs[name] = value;
+            },
+            query: async (statement: string) => {
+                statements.push(statement);
+                return { recordset: [], rowsAffected: [0] };
+            }
+        };
+        return Promise.resolve({ request: () => request, close: async () => { } });
+    }
+
+    test.afterAll(async () => {
+        await closeDbAdapters();
+    });
+
+    test('declares a named parameter used twice once', async () => {
+        const inputs: Record<string, any> = {};
+        const statements: string[] = [];
+        const adapter = getDbAdapter('mssql', { server: 'spec', database: 'named' });
+        (adapter as any).pool = fakePool(inputs, statements);
+        await adapter.execute('select * from t where a = :id or b = :id and c = :name', { id: 7, name: 'x' }, { autoCommit: true });
+        expect(statements).toEqual(['select * from t where a = @id or b = @id and c = @name']);
+        expect(inputs).toEqual({ id: 7, name: 'x' });
+    });
+
+    test('declares every position of an array', async () => {
+        const inputs: Record<string, any> = {};
+        const statements: string[] = [];
+        const adapter = getDbAdapter('mssql', { server: 'spec', database: 'positions' });
+        (adapter as any).pool = fakePool(inputs, statements);
+        await adapter.execute('select * from t where a = :1 or b = :1 and c = :2', [7, 'x'], { autoCommit: true });
+        expect(statements).toEqual(['select * from t where a = @p1 or b = @p2 and c = @p3']);
+        expect(inputs).toEqual({ p1: 7, p2: 7, p3: 'x' });
+    });
+});
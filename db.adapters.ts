@@ -0,0 +1,345 @@
+import { stableStringify } from './diff.utils';
+
+
+/*
+Driver adapters behind the DataBase class. Each adapter owns the connection pool of one database type and connection
+config and translates the common calling convention - bind parameters as an array (`?` or `:1`) or an object
+(`:name`), rows as objects keyed by column name - to its driver. Adapters are created on first use and cached per
+type and config for the lifetime of the worker; `registerDbAdapter` plugs in another driver under a new type name.
+
+Drivers are required lazily, so only the ones actually used need to be installed:
+  oracle: oracledb, mysql: mysql, postgres: pg, mssql (alias "sql"): mssql, sqlite: better-sqlite3
+SQLite takes { filename } (":memory:" for a private in-memory database), which is enough to run DB dependent helpers
+locally without a database server.
+*/
+
+
+export type DbType = "oracle" | "mysql" | "postgres" | "mssql" | "sql" | "sqlite";
+
+export type QueryParams = any[] | Record<string, any>;
+
+export type DbColumn = { name: string, dbType?: string };
+
+export type QueryResult<T = Record<string, any>> = {
+    rows: T[],
+    columns: DbColumn[],
+    rowsAffected: number,
+    outBinds?: any,
+    // Same as rows, kept for callers of the previous implementation which read queryResult.json
+    json: T[]
+}
+
+export interface DbAdapter {
+    readonly type: string;
+    execute(statement: string, params: QueryParams, options: { autoCommit: boolean }): Promise<QueryResult>;
+    executeProcedure(procedureName: string, params: QueryParams): Promise<QueryResult>;
+    close(): Promise<void>;
+}
+
+export type DbAdapterFactory = (dbConfig: any) => DbAdapter;
+
+// String literals ('' inside is two adjacent literals), quoted identifiers, comments and $tag$ quoted bodies
+const SQL_LITERALS = /'[^']*'|"[^"]*"|`[^`]*`|--[^\n]*|\/\*[\s\S]*?\*\/|\$(?<tag>[a-zA-Z_]\w*)?\$[\s\S]*?\$\k<tag>\$/;
+
+// MySQL also escapes quotes with a backslash inside string literals, e.g. 'it\'s'
+const MYSQL_LITERALS = /'(?:\\[\s\S]|[^'\\])*'|"(?:\\[\s\S]|[^"\\])*"|`[^`]*`|--[^\n]*|\/\*[\s\S]*?\*\//;
+
+const POSITION_PLACEHOLDERS = /(?<!:):(?<key>\d+)\b|\?/;
+
+const NAME_PLACEHOLDERS = /(?<!:):(?<key>[a-zA-Z_]\w*)/;
+
+/*
+Rewrites the placeholders of the statement to the style of the driver and lists the values in placeholder order.
+`:1` style positions and `:name` names are looked up in params, `?` takes the next array value. Text inside string
+literals, quoted identifiers and comments is left as it is, e.g. the format in TO_CHAR(created, 'HH24:MI').
+backslashEscapes reads literals the MySQL way, where \' does not end the literal.
+*/
+export function bindPlaceholders(statement: string, params: QueryParams, placeholder: (position: number, name: string) => string, options?: { backslashEscapes?: boolean }) {
+    const values: any[] = [];
+    const names: string[] = [];
+    if (params === undefined || params === null) return { statement, values, names };
+    let next = 0;
+    const placeholders = Array.isArray(params) ? POSITION_PLACEHOLDERS : NAME_PLACEHOLDERS;
+    const literals = options?.backslashEscapes ? MYSQL_LITERALS : SQL_LITERALS;
+    const pattern = new RegExp(`${literals.source}|${placeholders.source}`, 'g');
+    const rewritten = statement.replace(pattern, (match: string, ...args: any[]) => {
+        const key: string = args[args.length - 1].key;
+        if (key === undefined && match !== '?') return match;
+        let name: string;
+        let value: any;
+        if (Array.isArray(params)) {
+            const index = key === undefined ? next++ : Number(key) - 1;
+            if (index >= params.length) throw new Error(`No value bound for ${match} at position ${index + 1}`);
+            name = `${index + 1}`;
+            value = params[index];
+        } else {
+            if (!(key in params)) throw new Error(`No value bound for ${match}`);
+            name = key;
+            value = params[key];
+        }
+        values.push(value);
+        names.push(name);
+        return placeholder(values.length, name);
+    });
+    return { statement: rewritten, values, names };
+}
+
+function toResult(columns: DbColumn[], rows: any[], rowsAffected?: number, outBinds?: any): QueryResult {
+    const records = (rows ?? []).map((row: any) => {
+        if (!Array.isArray(row)) return { ...row };
+        const record: Record<string, any> = {};
+        columns.forEach((column, index) => record[column.name] = row[index]);
+        return record;
+    });
+    return { rows: records, columns, rowsAffected: rowsAffected ?? records.length, outBinds, json: records };
+}
+
+function procedureParamNames(params: QueryParams) {
+    if (params === undefined || params === null) return [];
+    return Array.isArray(params) ? params.map((value, index) => `${index + 1}`) : Object.keys(params);
+}
+
+class OracleAdapter implements DbAdapter {
+    readonly type = 'oracle';
+    protected pool: Promise<any>;
+
+    constructor(protected dbConfig: any) { }
+
+    protected getPool() {
+        if (this.pool === undefined) {
+            const oracledb = require("oracledb");
+            this.pool = oracledb.createPool({ poolMin: 0, poolMax: 4, ...this.dbConfig }).catch((error: any) => this.dropPool(error));
+        }
+        return this.pool;
+    }
+
+    // A pool which failed to connect is dropped, so the next statement connects again instead of failing with the same error
+    protected dropPool(error: any): never {
+        this.pool = undefined;
+        throw error;
+    }
+
+    async execute(statement: string, params: QueryParams, options: { autoCommit: boolean }) {
+        // Named binds go through untouched so out bind definitions come back under their names
+        const bound = Array.isArray(params) ? bindPlaceholders(statement, params, (position) => `:${position}`) : { statement, values: params ?? [] };
+        const conn = await (await this.getPool()).getConnection();
+        try {
+            const result = await conn.execute(bound.statement, bound.values, { autoCommit: options.autoCommit });
+            const columns: DbColumn[] = (result.metaData ?? []).map((meta: any) => ({ name: meta.name, dbType: meta.dbTypeName }));
+            return toResult(columns, result.rows, result.rowsAffected, result.outBinds);
+        } finally {
+            await conn.close();
+        }
+    }
+
+    async executeProcedure(procedureName: string, params: QueryParams) {
+        const names = procedureParamNames(params);
+        return await this.execute(`BEGIN ${procedureName}(${names.map((name) => `:${name}`).join(', ')}); END;`, params, { autoCommit: true });
+    }
+
+    async close() {
+        if (this.pool !== undefined) await (await this.pool).close(0);
+    }
+}
+
+class MysqlAdapter implements DbAdapter {
+    readonly type = 'mysql';
+    protected pool: any;
+
+    constructor(protected dbConfig: any) { }
+
+    protected getPool() {
+        if (this.pool === undefined) {
+            const mysql = require('mysql');
+            this.pool = mysql.createPool({ connectionLimit: 4, ...this.dbConfig });
+        }
+        return this.pool;
+    }
+
+    // The mysql driver is callback based, the callback receives the result before the promise resolves
+    async execute(statement: string, params: QueryParams, options: { autoCommit: boolean }): Promise<QueryResult> {
+        const bound = bindPlaceholders(statement, params, () => '?', { backslashEscapes: true });
+        return await new Promise((resolve, reject) => {
+            this.getPool().query(bound.statement, bound.values, (err: any, results: any, fields: any) => {
+                if (err) return reject(err);
+                // CALL returns one result set per select of the procedure followed by the status packet
+                const resultSet = Array.isArray(results) && Array.isArray(results[0]) ? results[0] : results;
+                const resultFields = Array.isArray(fields) && Array.isArray(fields[0]) ? fields[0] : fields;
+                const columns: DbColumn[] = (resultFields ?? []).map((field: any) => ({ name: field.name, dbType: `${field.type}` }));
+                const status = Array.isArray(results) ? results.find((item: any) => item?.affectedRows !== undefined) : results;
+                resolve(toResult(columns, Array.isArray(resultSet) ? resultSet : [], status?.affectedRows));
+            });
+        });
+    }
+
+    async executeProcedure(procedureName: string, params: QueryParams) {
+        const names = procedureParamNames(params);
+        return await this.execute(`CALL ${procedureName}(${names.map((name) => Array.isArray(params) ? '?' : `:${name}`).join(', ')})`, params, { autoCommit: true });
+    }
+
+    async close() {
+        if (this.pool === undefined) return;
+        await new Promise<void>((resolve, reject) => this.pool.end((err: any) => err ? reject(err) : resolve()));
+    }
+}
+
+class PostgresAdapter implements DbAdapter {
+    readonly type = 'postgres';
+    protected pool: any;
+
+    constructor(protected dbConfig: any) { }
+
+    protected getPool() {
+        if (this.pool === undefined) {
+            const { Pool } = require('pg');
+            this.pool = new Pool({ max: 4, ...this.dbConfig });
+        }
+        return this.pool;
+    }
+
+    // pg autocommits every statement which is not inside an explicit transaction
+    async execute(statement: string, params: QueryParams, options: { autoCommit: boolean }) {
+        const bound = bindPlaceholders(statement, params, (position) => `$${position}`);
+        const result = await this.getPool().query(bound.statement, bound.values);
+        const columns: DbColumn[] = (result.fields ?? []).map((field: any) => ({ name: field.name, dbType: `${field.dataTypeID}` }));
+        return toResult(columns, result.rows, result.command === 'SELECT' ? result.rows.length : result.rowCount ?? undefined);
+    }
+
+    async executeProcedure(procedureName: string, params: QueryParams) {
+        const names = procedureParamNames(params);
+        return await this.execute(`CALL ${procedureName}(${names.map((name) => Array.isArray(params) ? '?' : `:${name}`).join(', ')})`, params, { autoCommit: true });
+    }
+
+    async close() {
+        if (this.pool !== undefined) await this.pool.end();
+    }
+}
+
+class MssqlAdapter implements DbAdapter {
+    readonly type = 'mssql';
+    protected pool: Promise<any>;
+
+    constructor(protected dbConfig: any) { }
+
+    protected getPool() {
+        if (this.pool === undefined) {
+            const mssql = require('mssql');
+            this.pool = new mssql.ConnectionPool({ pool: { max: 4 }, ...this.dbConfig }).connect().catch((error: any) => this.dropPool(error));
+        }
+        return this.pool;
+    }
+
+    // connect() rejects while the server is unreachable, the next statement tries again with a new pool
+    protected dropPool(error: any): never {
+        this.pool = undefined;
+        throw error;
+    }
+
+    protected toResult(result: any): QueryResult {
+        const recordset = result.recordset ?? [];
+        const columns: DbColumn[] = Object.values(recordset.columns ?? {}).map((column: any) => ({ name: column.name, dbType: column.type?.declaration ?? column.type?.name }));
+        const rowsAffected = (result.rowsAffected ?? []).reduce((total: number, count: number) => total + count, 0);
+        return toResult(columns, recordset, result.recordset === undefined ? rowsAffected : recordset.length, result.output);
+    }
+
+    // SQL Server binds by name, positional values are bound as @p1, @p2, ...; a name used twice is declared once
+    async execute(statement: string, params: QueryParams, options: { autoCommit: boolean }) {
+        const bound = bindPlaceholders(statement, params, (position, name) => Array.isArray(params) ? `@p${position}` : `@${name}`);
+        const request = (await this.getPool()).request();
+        const inputs = new Map<string, any>();
+        bound.names.forEach((name, index) => inputs.set(Array.isArray(params) ? `p${index + 1}` : name, bound.values[index]));
+        inputs.forEach((value, name) => request.input(name, value));
+        return this.toResult(await request.query(bound.statement));
+    }
+
+    async executeProcedure(procedureName: string, params: QueryParams) {
+        if (Array.isArray(params)) throw new Error('SQL Server procedures take their parameters by name');
+        const request = (await this.getPool()).request();
+        Object.keys(params ?? {}).forEach((name) => request.input(name, params[name]));
+        return this.toResult(await request.execute(procedureName));
+    }
+
+    async close() {
+        if (this.pool !== undefined) await (await this.pool).close();
+    }
+}
+
+class SqliteAdapter implements DbAdapter {
+    readonly type = 'sqlite';
+    protected db: any;
+
+    constructor(protected dbConfig: any) { }
+
+    protected getDb() {
+        if (this.db === undefined) {
+            const Database = require('better-sqlite3');
+            const { filename, database, ...options } = this.dbConfig ?? {};
+            this.db = new Database(filename ?? database ?? ':memory:', options);
+        }
+        return this.db;
+    }
+
+    // better-sqlite3 is synchronous and autocommits, it runs inside the async API for a uniform interface
+    async execute(statement: string, params: QueryParams, options: { autoCommit: boolean }) {
+        const bound = bindPlaceholders(statement, params, () => '?');
+        const prepared = this.getDb().prepare(bound.statement);
+        if (prepared.reader) {
+            const columns: DbColumn[] = prepared.columns().map((column: any) => ({ name: column.name, dbType: column.type ?? undefined }));
+            return toResult(columns, prepared.all(...bound.values));
+        }
+        return toResult([], [], prepared.run(...bound.values).changes);
+    }
+
+    async executeProcedure(procedureName: string, params: QueryParams): Promise<QueryResult> {
+        throw new Error('SQLite has no stored procedures');
+    }
+
+    async close() {
+        if (this.db !== undefined) this.db.close();
+    }
+}
+
+const factories = new Map<string, DbAdapterFactory>([
+    ['oracle', (dbConfig) => new OracleAdapter(dbConfig)],
+    ['mysql', (dbConfig) => new MysqlAdapter(dbConfig)],
+    ['postgres', (dbConfig) => new PostgresAdapter(dbConfig)],
+    ['mssql', (dbConfig) => new MssqlAdapter(dbConfig)],
+    ['sql', (dbConfig) => new MssqlAdapter(dbConfig)],
+    ['sqlite', (dbConfig) => new SqliteAdapter(dbConfig)]
+]);
+
+const adapters = new Map<string, DbAdapter>();
+
+export function registerDbAdapter(dbType: string, factory: DbAdapterFactory) {
+    factories.set(dbType, factory);
+}
+
+// Adapter, and with it the pool, shared by every DataBase instance using the same type and connection config. The
+// adapters drop a pool which failed to connect, so a cached adapter recovers once the database is reachable again
+export function getDbAdapter(dbType: string, dbConfig: any) {
+    const key = `${dbType}:${stableStringify(dbConfig ?? {})}`;
+    if (!adapters.has(key)) {
+        const factory = factories.get(dbType);
+        if (factory === undefined) {
+            throw new Error(`database type [${dbType}] is not supported, use one of ${Array.from(factories.keys()).join(', ')}`);
+        }
+        adapters.set(key, factory(dbConfig));
+    }
+    return adapters.get(key);
+}
+
+// Closes every pool of the worker, e.g. from an afterAll hook or globalTeardown. Returns the failures instead of throwing
+// so that one unreachable database does not keep the other pools open
+export async function closeDbAdapters() {
+    const closing = Array.from(adapters.values());
+    adapters.clear();
+    const failures: { type: string, error: any }[] = [];
+    for (const adapter of closing) {
+        try {
+            await adapter.close();
+        } catch (error) {
+            failures.push({ type: adapter.type, error });
+        }
+    }
+    return failures;
+}
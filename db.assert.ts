@@ -0,0 +1,33 @@
+import { CustomAssert } from "./assert"
+import DataBase, { QueryParams, RowsCondition, describeCondition } from "./db.utils"
+
+
+/*
+Assertions on backend records which are written asynchronously after a UI action. The query is re-run until its rows
+satisfy the condition or the timeout (CASE_CREATION_MAX_TIMEOUT_IN_SECONDS) expires, see DataBase.waitForRows. Hard
+mode (default) fails the test, `soft: true` records the failure in assertsJson and lets the test continue; both attach
+the rows of the last poll, the number of polls and the time waited.
+*/
+
+
+type DbAssertOptions = { soft?: boolean, timeout?: number, interval?: number }
+
+export class DbAssert extends CustomAssert {
+
+    async expectRows<T = Record<string, any>>(db: DataBase, query: string, params: QueryParams, condition: RowsCondition<T>, message: string, options?: DbAssertOptions){
+        const result = await db.waitForRows<T>(query, params, condition, options)
+        await this.report('expectRows', result.passed, `${result.rows.length} row(s)`, describeCondition(condition), message,
+            { query: query, lastRows: result.rows, attempts: result.attempts, elapsedMs: result.elapsedMs, timeout: result.timeout }, !(options?.soft ?? false))
+        return result.rows
+    }
+
+    async expectRowCount(db: DataBase, query: string, params: QueryParams, expectedCount: number, message: string, options?: DbAssertOptions){
+        return await this.expectRows(db, query, params, { rowCount: expectedCount }, message, options)
+    }
+
+    async expectColumnValue(db: DataBase, query: string, params: QueryParams, column: string, expected: any, message: string, options?: DbAssertOptions){
+        return await this.expectRows(db, query, params, { columnEquals: { [column]: expected } }, message, options)
+    }
+}
+
+export default new DbAssert();
@@ -1,15 +1,86 @@
+import config from './config';
+import logger from './logger';
+import { DbType, QueryParams, QueryResult, closeDbAdapters, getDbAdapter } from './db.adapters';
+
+
+/*
+Database access for tests. Statements run through the driver adapter of the database type (db.adapters.ts), which keeps
+one pool per type and connection config shared by every DataBase instance of the worker, so a test running many queries
+does not log in for each one.
+Values are always passed as bind parameters, either positional (array, `?` or `:1`) or named (object, `:name`), and
+select results come back as row objects keyed by the column names of the result metadata with the driver's native
+value types. Driver errors are logged and rethrown as DatabaseError carrying the failing statement.
+*/
+
+
+export type { DbAdapter, DbColumn, DbType, QueryParams, QueryResult } from './db.adapters';
+export { registerDbAdapter } from './db.adapters';
+
+export class DatabaseError extends Error {
+    dbType: string;
+    statement: string;
+    cause: any;
+
+    constructor(dbType: string, statement: string, cause: any) {
+        super(`${dbType} statement failed: ${cause?.message ?? cause}\n  statement: ${statement}`);
+        this.name = 'DatabaseError';
+        this.dbType = dbType;
+        this.statement = statement;
+        this.cause = cause;
+    }
+}
+
+// Every given check has to hold: exact or minimum row count, a row having all the column values, a custom predicate
+export type RowsCondition<T = Record<string, any>> = {
+    rowCount?: number,
+    minRows?: number,
+    columnEquals?: Record<string, any>,
+    predicate?: (rows: T[]) => boolean
+}
+
+export type RowsWaitResult<T = Record<string, any>> = { passed: boolean, rows: T[], attempts: number, elapsedMs: number, timeout: number };
+
+export function describeCondition(condition: RowsCondition<any>) {
+    const parts: string[] = [];
+    if (condition.rowCount !== undefined) parts.push(`rowCount = ${condition.rowCount}`);
+    if (condition.minRows !== undefined) parts.push(`rowCount >= ${condition.minRows}`);
+    if (condition.columnEquals !== undefined) parts.push(`a row with ${JSON.stringify(condition.columnEquals)}`);
+    if (condition.predicate !== undefined) parts.push('custom predicate');
+    return parts.join(' and ');
+}
+
+// Column names compare case insensitively since databases differ in the case they report (CASE_ID vs case_id)
+function conditionHolds<T>(rows: T[], condition: RowsCondition<T>) {
+    if (condition.rowCount !== undefined && rows.length !== condition.rowCount) return false;
+    if (condition.minRows !== undefined && rows.length < condition.minRows) return false;
+    if (condition.columnEquals !== undefined) {
+        const expected = Object.keys(condition.columnEquals);
+        const matched = rows.some((row: any) => expected.every((column) => {
+            const key = Object.keys(row).find((name) => name.toLowerCase() === column.toLowerCase());
+            return key !== undefined && `${row[key]}` === `${condition.columnEquals[column]}`;
+        }));
+        if (!matched) return false;
+    }
+    return condition.predicate === undefined || condition.predicate(rows);
+}
+
+// Closes every pool of the worker, e.g. from an afterAll hook or globalTeardown
+export async function closeAllPools() {
+    for (const failure of await closeDbAdapters()) {
+        await logger.warn(`Unable to close database pool ${failure.type}: ${failure.error?.message ?? failure.error}`);
+    }
+}
+
 export default class DataBase {
-    protected dbConn: any;
-    protected conn: any;
-    protected dbType: string;
-    public queryResult: any;
+    protected dbType: DbType;
+    public queryResult: QueryResult<any>;
     protected dbConfig: any;
-    constructor(dbType?: "oracle" | "mysql" | "sql", dbConfig?: any){
+    constructor(dbType?: DbType, dbConfig?: any){
         this.dbType = dbType;
         this.dbConfig = dbConfig;
     }
 
-    setDbType(dbType: string){
+    setDbType(dbType: DbType){
         this.dbType = dbType;
     }
 
@@ -17,66 +88,67 @@ export default class DataBase {
         this.dbConfig = dbConfig
     }
 
-    async executeSelectCmd(query: any){
-        this.dbConn = require("oracledb")
-        if(this.dbType === 'oracle'){
-            try {
-                await this.dbConn.getConnection(this.dbConfig).then(async (conn: any) => {
-                    this.queryResult = await conn.execute(query);
-                    this.dbConn = conn;
-                    this.queryResult.json = await this.getResultsToJson();
-                })
-            } catch (err) {
-                console.log('Ouch', err);
-            } finally {
-                if (this.dbConn) {
-                    try {
-                        await (this.dbConn).close();
-                    } catch (err) {
-                        console.log('Recheck the connection string', err);
-                    }
-                }
-            }
-        } else if(this.dbType === 'mysql') {
-            this.dbConn = require('mysql');
-            try {
-                this.dbConn = await this.dbConn.createConnection(this.dbConfig);
-                await this.dbConn.connect()
-                await this.dbConn.query(query, (err: any, rows: any, fields: any) => {
-                    if (err) throw err
-                    this.queryResult = rows;
-                })
-            } catch (err) {
-                console.log('Ouch!', err);
-            } finally {
-                if (this.dbConn) {
-                    await (this.dbConn).close()
-                }
-            }
+    protected async run(statement: string, execute: () => Promise<QueryResult>, paramCount: number): Promise<QueryResult> {
+        await logger.info(`DataBase :: ${this.dbType} executing [${statement}] with ${paramCount} bind parameter(s)`);
+        try {
+            return await execute();
+        } catch (err) {
+            const error = new DatabaseError(this.dbType, statement, err);
+            await logger.error(`DataBase :: ${error.message}`);
+            throw error;
         }
     }
 
-    protected async getResultsToJson() {
-        let rows = this.queryResult.rows;
-        let metaData = this.queryResult.metaData;
-        let len = metaData.length
-        let res = [];
-        for (const element of rows) {
-            let item: any = '';
-            for (let l = 0; l <len; l++){
-                if(l === 0) {
-                    item = `${item} "${metaData[l].name}": "${element[l]}" `;
-                } else {
-                    item = `${item} "${metaData[l].name}": "${element[l]}" `;
-                }
+    protected async execute(statement: string, params: QueryParams, autoCommit: boolean): Promise<QueryResult> {
+        const paramCount = params === undefined || params === null ? 0 : Object.keys(params).length;
+        return await this.run(statement, async () => await getDbAdapter(this.dbType, this.dbConfig).execute(statement, params, { autoCommit }), paramCount);
+    }
+
+    // Runs a select and returns its rows, e.g. executeSelectCmd<{ CASE_ID: number }>('select case_id from cases where status = :status', { status: 'OPEN' })
+    async executeSelectCmd<T = Record<string, any>>(query: string, params?: QueryParams): Promise<T[]> {
+        this.queryResult = await this.execute(query, params, false);
+        await logger.info(`DataBase :: ${this.queryResult.rows.length} row(s) returned`);
+        return this.queryResult.rows;
+    }
+
+    /*
+    Re-runs the query until its rows satisfy the condition or the timeout (CASE_CREATION_MAX_TIMEOUT_IN_SECONDS by default)
+    expires, for backend records written asynchronously after a UI action. Returns the last rows either way; a failing
+    statement is not retried and throws its DatabaseError straight away.
+    */
+    async waitForRows<T = Record<string, any>>(query: string, params: QueryParams, condition: RowsCondition<T>, options?: { timeout?: number, interval?: number }): Promise<RowsWaitResult<T>> {
+        const timeout = options?.timeout ?? config.CASE_CREATION_MAX_TIMEOUT_IN_SECONDS * 1000;
+        const interval = options?.interval ?? 2000;
+        const startTime = Date.now();
+        let attempts = 0;
+        while (true) {
+            attempts++;
+            const rows = await this.executeSelectCmd<T>(query, params);
+            const elapsedMs = Date.now() - startTime;
+            if (conditionHolds(rows, condition)) {
+                await logger.info(`DataBase :: poll ${attempts} - ${describeCondition(condition)} met after ${elapsedMs} ms`);
+                return { passed: true, rows, attempts, elapsedMs, timeout };
+            }
+            await logger.info(`DataBase :: poll ${attempts} - ${rows.length} row(s), waiting for ${describeCondition(condition)} (${elapsedMs}/${timeout} ms)`);
+            if (elapsedMs + interval > timeout) {
+                return { passed: false, rows, attempts, elapsedMs, timeout };
             }
-            let data: any = `{${item}}`;
-            res.push(JSON.parse(data))
+            await new Promise(resolve => setTimeout(resolve, interval));
         }
-        return res;
     }
 
+    // Runs an insert, update or delete, committed straight away, and returns the number of affected rows
+    async executeUpdate(statement: string, params?: QueryParams): Promise<number> {
+        this.queryResult = await this.execute(statement, params, true);
+        await logger.info(`DataBase :: ${this.queryResult.rowsAffected} row(s) affected`);
+        return this.queryResult.rowsAffected;
+    }
 
-
-    
+    // Calls a stored procedure. Oracle out parameters are passed as bind definitions ({ dir, type }) and returned in outBinds,
+    // SQL Server output parameters in outBinds as well
+    async executeProcedure<T = Record<string, any>>(procedureName: string, params?: QueryParams): Promise<QueryResult<T>> {
+        const paramCount = params === undefined || params === null ? 0 : Object.keys(params).length;
+        this.queryResult = await this.run(`procedure ${procedureName}`, async () => await getDbAdapter(this.dbType, this.dbConfig).executeProcedure(procedureName, params), paramCount);
+        return this.queryResult;
+    }
 }
@@ -0,0 +1,56 @@
+import { test, expect } from '@playwright/test';
+import { jsonDiff, stableStringify, subsetDiff, unorderedDiff } from './diff.utils';
+
+
+test.describe('jsonDiff', () => {
+    test('finds no difference between equal values', async () => {
+        expect(jsonDiff({ id: 1, tags: ['a', 'b'], member: { name: 'Ann' } }, { member: { name: 'Ann' }, tags: ['a', 'b'], id: 1 })).toEqual([]);
+    });
+
+    test('reports changed, missing, unexpected and mistyped values with their path', async () => {
+        const diffs = jsonDiff({ id: 1, status: 'Open', ids: [1, 2, 3], extra: true, count: '2' }, { id: 2, status: 'Open', ids: [1, 2], name: 'Ann', count: 2 });
+        expect(diffs).toEqual(expect.arrayContaining([
+            { path: '$.id', kind: 'changed', actual: 1, expected: 2 },
+            { path: '$.ids[2]', kind: 'unexpected', actual: 3 },
+            { path: '$.name', kind: 'missing', expected: 'Ann' },
+            { path: '$.extra', kind: 'unexpected', actual: true },
+            { path: '$.count', kind: 'type', actual: '2', expected: 2 }
+        ]));
+        expect(diffs).toHaveLength(5);
+    });
+
+    test('compares dates by their time', async () => {
+        expect(jsonDiff({ at: new Date('2024-05-01T10:00:00Z') }, { at: new Date('2024-05-01T10:00:00.000Z') })).toEqual([]);
+        expect(jsonDiff({ at: new Date('2024-05-01') }, { at: new Date('2024-05-02') })).toEqual([
+            { path: '$.at', kind: 'changed', actual: new Date('2024-05-01'), expected: new Date('2024-05-02') }
+        ]);
+        expect(jsonDiff(new Date('2024-05-01'), '2024-05-01')[0].kind).toBe('type');
+    });
+
+    test('compares arrays in exact mode by position', async () => {
+        expect(jsonDiff([1, 2], [2, 1])).toHaveLength(2);
+    });
+});
+
+test.describe('subsetDiff', () => {
+    test('ignores extra keys and matches array items regardless of order at every depth', async () => {
+        const actual = { case: { lines: [{ id: 1, codes: ['A', 'B'], note: 'x' }, { id: 2, codes: ['C', 'D'] }] }, owner: 'Ann' };
+        expect(subsetDiff(actual, { case: { lines: [{ id: 2, codes: ['D'] }, { codes: ['B', 'A'] }] } })).toEqual([]);
+    });
+
+    test('needs its own actual item for every expected item', async () => {
+        expect(subsetDiff({ ids: [1, 2] }, { ids: [2, 2] })).toEqual([{ path: '$.ids[1]', kind: 'missing', expected: 2 }]);
+        expect(subsetDiff({ rows: [[1, 2]] }, { rows: [[3]] })).toEqual([{ path: '$.rows[0]', kind: 'missing', expected: [3] }]);
+    });
+});
+
+test.describe('unorderedDiff', () => {
+    test('counts duplicates', async () => {
+        expect(unorderedDiff(['a', 'a', 'b'], ['a', 'b', 'b'])).toEqual({ missing: ['b'], unexpected: ['a'] });
+        expect(unorderedDiff([{ b: 1, a: 2 }], [{ a: 2, b: 1 }])).toEqual({ missing: [], unexpected: [] });
+    });
+
+    test('keys objects independently of their key order', async () => {
+        expect(stableStringify({ b: [1, { d: 1, c: 2 }], a: null })).toBe('{"a":null,"b":[1,{"c":2,"d":1}]}');
+    });
+});
@@ -0,0 +1,120 @@
+export type DiffEntry = {
+    path: string,
+    kind: 'missing' | 'unexpected' | 'changed' | 'type',
+    actual?: any,
+    expected?: any
+}
+
+function typeName(value: any) {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (value instanceof Date) return 'date';
+    return typeof value;
+}
+
+// Stable string key for deep comparisons, object keys are sorted so {a, b} and {b, a} compare equal
+export function stableStringify(value: any): string {
+    if (Array.isArray(value)) return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+    if (value instanceof Date) return JSON.stringify(isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString());
+    if (value !== null && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/*
+Path level differences between two JSON values, e.g. { path: '$.member.ids[2]', kind: 'changed', actual, expected }.
+Exact mode compares arrays item by item. Partial mode checks that expected is contained in actual at every depth:
+objects may have extra keys, and arrays are unordered with every expected item matched (partially) by its own actual
+item, so [{ id: 2 }] is contained in [{ id: 1, x }, { id: 2, y }]. Dates compare by their time.
+*/
+export function jsonDiff(actual: any, expected: any, path: string = '$', options?: { partial?: boolean }): DiffEntry[] {
+    const partial = options?.partial ?? false;
+    const actualType = typeName(actual);
+    const expectedType = typeName(expected);
+    if (actualType !== expectedType) {
+        return [{ path, kind: 'type', actual, expected }];
+    }
+    if (actualType === 'date') {
+        return Object.is(actual.getTime(), expected.getTime()) ? [] : [{ path, kind: 'changed', actual, expected }];
+    }
+    if (actualType === 'array' && partial) {
+        const used = new Set<number>();
+        const diffs: DiffEntry[] = [];
+        expected.forEach((item: any, index: number) => {
+            const match = actual.findIndex((candidate: any, candidateIndex: number) => !used.has(candidateIndex) && jsonDiff(candidate, item, path, options).length === 0);
+            if (match < 0) {
+                diffs.push({ path: `${path}[${index}]`, kind: 'missing', expected: item });
+            } else {
+                used.add(match);
+            }
+        });
+        return diffs;
+    }
+    if (actualType === 'array') {
+        const diffs: DiffEntry[] = [];
+        const length = Math.max(actual.length, expected.length);
+        for (let index = 0; index < length; index++) {
+            const itemPath = `${path}[${index}]`;
+            if (index >= actual.length) {
+                diffs.push({ path: itemPath, kind: 'missing', expected: expected[index] });
+            } else if (index >= expected.length) {
+                diffs.push({ path: itemPath, kind: 'unexpected', actual: actual[index] });
+            } else {
+                diffs.push(...jsonDiff(actual[index], expected[index], itemPath, options));
+            }
+        }
+        return diffs;
+    }
+    if (actualType === 'object') {
+        const diffs: DiffEntry[] = [];
+        for (const key of Object.keys(expected)) {
+            const keyPath = `${path}.${key}`;
+            if (!(key in actual)) {
+                diffs.push({ path: keyPath, kind: 'missing', expected: expected[key] });
+            } else {
+                diffs.push(...jsonDiff(actual[key], expected[key], keyPath, options));
+            }
+        }
+        if (!partial) {
+            for (const key of Object.keys(actual)) {
+                if (!(key in expected)) diffs.push({ path: `${path}.${key}`, kind: 'unexpected', actual: actual[key] });
+            }
+        }
+        return diffs;
+    }
+    return actual === expected ? [] : [{ path, kind: 'changed', actual, expected }];
+}
+
+// Order insensitive comparison, duplicates count, so [a, a, b] and [a, b, b] differ
+export function unorderedDiff(actual: any[], expected: any[]) {
+    const remaining = new Map<string, number>();
+    for (const item of actual) {
+        const key = stableStringify(item);
+        remaining.set(key, (remaining.get(key) ?? 0) + 1);
+    }
+    const missing: any[] = [];
+    for (const item of expected) {
+        const key = stableStringify(item);
+        if ((remaining.get(key) ?? 0) > 0) {
+            remaining.set(key, remaining.get(key) - 1);
+        } else {
+            missing.push(item);
+        }
+    }
+    const unexpected: any[] = [];
+    for (const item of actual) {
+        const key = stableStringify(item);
+        if ((remaining.get(key) ?? 0) > 0) {
+            remaining.set(key, remaining.get(key) - 1);
+            unexpected.push(item);
+        }
+    }
+    return { missing, unexpected };
+}
+
+// Differences which make `expected` not a subset of `actual`: missing array items or missing/changed object keys, with
+// arrays matched regardless of order at every depth
+export function subsetDiff(actual: any, expected: any): DiffEntry[] {
+    return jsonDiff(actual, expected, '$', { partial: true });
+}
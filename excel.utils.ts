@@ -0,0 +1,143 @@
+function getSheet(workbook: any, filePath: string, sheetName?: string) {
+    const name = sheetName ?? workbook.SheetNames[0];
+    const sheet = workbook.Sheets[name];
+    if (sheet === undefined) {
+        throw new Error(`Sheet [${name}] not found in ${filePath}, available sheets: ${workbook.SheetNames.join(', ')}`);
+    }
+    return sheet;
+}
+
+// Sync variant for callers which cannot await, e.g. while playwright collects the tests of a file
+export function readSheetSync(filePath: string, sheetName?: string, options?: { blankRows?: boolean }): string[][] {
+    const XLSX = require("xlsx");
+    const sheet = getSheet(XLSX.readFile(filePath, { cellDates: false }), filePath, sheetName);
+    const rows: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, defval: '', blankrows: options?.blankRows ?? false });
+    return rows.map((row) => row.map((cell) => `${cell}`));
+}
+
+export async function readSheet(filePath: string, sheetName?: string): Promise<string[][]> {
+    return readSheetSync(filePath, sheetName);
+}
+
+export async function writeSheet(filePath: string, sheetName: string, rows: any[][]) {
+    const XLSX = require("xlsx");
+    let fs = require("fs");
+    const workbook = fs.existsSync(filePath) ? XLSX.readFile(filePath) : XLSX.utils.book_new();
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    if (workbook.SheetNames.includes(sheetName)) {
+        workbook.Sheets[sheetName] = sheet;
+    } else {
+        XLSX.utils.book_append_sheet(workbook, sheet, sheetName);
+    }
+    XLSX.writeFile(workbook, filePath);
+}
+
+// Sets cells addressed by header name and data row index (0 is the row below the header, blank rows counted as
+// readSheetSync with blankRows returns them). A column missing from the header row is appended to it.
+export async function updateSheetCells(filePath: string, sheetName: string, updates: { rowIndex: number, column: string, value: any }[]) {
+    const XLSX = require("xlsx");
+    const workbook = XLSX.readFile(filePath);
+    const sheet = getSheet(workbook, filePath, sheetName);
+    const range = XLSX.utils.decode_range(sheet['!ref'] ?? 'A1');
+    const headerRow: any[] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, defval: '', blankrows: true })[0] ?? [];
+    const headers = headerRow.map((header) => `${header}`.trim().toLowerCase());
+    for (const update of updates) {
+        let col = headers.indexOf(update.column.trim().toLowerCase());
+        if (col < 0) {
+            headers.push(update.column.trim().toLowerCase());
+            col = headers.length - 1;
+            sheet[XLSX.utils.encode_cell({ r: range.s.r, c: range.s.c + col })] = { t: 's', v: update.column };
+        }
+        const cell = { r: range.s.r + 1 + update.rowIndex, c: range.s.c + col };
+        sheet[XLSX.utils.encode_cell(cell)] = { t: 's', v: update.value === undefined || update.value === null ? '' : `${update.value}` };
+        range.e.r = Math.max(range.e.r, cell.r);
+        range.e.c = Math.max(range.e.c, cell.c);
+    }
+    sheet['!ref'] = XLSX.utils.encode_range(range);
+    XLSX.writeFile(workbook, filePath);
+}
+
+export async function getSheetNames(filePath: string): Promise<string[]> {
+    const XLSX = require("xlsx");
+    return XLSX.readFile(filePath, { bookSheets: true }).SheetNames;
+}
+
+export function parseCsv(content: string, delimiter: string = ','): string[][] {
+    // Quoted fields may contain the delimiter, line breaks and doubled quotes ("")
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const text = content.replace(/^\uFEFF/, '');
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+export function toCsv(rows: any[][], delimiter: string = ','): string {
+    return rows.map((row) => row.map((cell) => {
+        const value = cell === undefined || cell === null ? '' : `${cell}`;
+        return /[",\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+    }).join(delimiter)).join('\n') + '\n';
+}
+
+export function readCsvSync(filePath: string, delimiter: string = ','): string[][] {
+    let fs = require("fs");
+    return parseCsv(fs.readFileSync(filePath, 'utf-8'), delimiter);
+}
+
+export async function readCsv(filePath: string, delimiter: string = ','): Promise<string[][]> {
+    return readCsvSync(filePath, delimiter);
+}
+
+export async function writeCsv(filePath: string, rows: any[][], delimiter: string = ',') {
+    let fs = require("fs");
+    fs.writeFileSync(filePath, toCsv(rows, delimiter), 'utf-8');
+}
+
+// Same addressing as updateSheetCells, rowIndex counts the non blank rows below the header as readCsvSync returns them
+export async function updateCsvCells(filePath: string, updates: { rowIndex: number, column: string, value: any }[], delimiter: string = ',') {
+    const rows = readCsvSync(filePath, delimiter);
+    if (rows.length === 0) rows.push([]);
+    const headers = rows[0].map((header) => header.trim().toLowerCase());
+    for (const update of updates) {
+        let col = headers.indexOf(update.column.trim().toLowerCase());
+        if (col < 0) {
+            headers.push(update.column.trim().toLowerCase());
+            col = headers.length - 1;
+            rows[0][col] = update.column;
+        }
+        while (rows.length <= update.rowIndex + 1) rows.push([]);
+        rows[update.rowIndex + 1][col] = update.value === undefined || update.value === null ? '' : `${update.value}`;
+    }
+    const width = Math.max(...rows.map((row) => row.length));
+    await writeCsv(filePath, rows.map((row) => Array.from({ length: width }, (v, col) => row[col] ?? '')), delimiter);
+}
@@ -0,0 +1,136 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Locator, Page } from 'playwright';
+import { cssPath, xPath } from "playwright-dompath";
+import config from './config';
+import testContext from './testContext';
+import logger, { redactText, redactValue } from './logger';
+import { checkFolderAndCreate, writeJsonData } from './file.utils';
+
+
+/*
+Failure artifact capture, switched on with ON_FAILURE_SCREENSHOT in project.config.json. When a UiActions method throws
+or a hard assertion fails, a full page screenshot, the element screenshot, the page HTML, the current url and the
+resolved css/xpath of the element are written to an artifact folder kept next to the runtime logger file of the test.
+Capturing never throws: a step which fails (closed page, detached element) is simply left out of the result.
+The HTML and the details are redacted like the logs, and the REDACTION_MASK_SELECTORS elements are blacked out in
+the screenshots.
+*/
+
+
+export type FailureArtifacts = {
+    label: string,
+    folder: string,
+    capturedAt: string,
+    error?: string,
+    url?: string,
+    fullCss?: string,
+    fullXpath?: string,
+    pageScreenshot?: string,
+    elementScreenshot?: string,
+    html?: string,
+    details?: string
+}
+
+// Per test folder next to the runtime logger file, e.g. <logs>/<testName>_artifacts
+export function getArtifactFolder() {
+    const path = require("path");
+    if (testContext.runtimeLoggerFile === undefined) {
+        return `${process.cwd()}${config.RUN_TIME_DATA_PATH}/artifacts`;
+    }
+    const loggerFile: string = testContext.runtimeLoggerFile;
+    return `${path.dirname(loggerFile)}/${path.basename(loggerFile, path.extname(loggerFile))}_artifacts`;
+}
+
+function getMaskLocators(page: Page) {
+    return config.REDACTION_MASK_SELECTORS.map((selector) => page.locator(selector));
+}
+
+export async function captureFailureArtifacts(label: string, options: { page?: Page, element?: Locator, fullCss?: string, fullXpath?: string, error?: any }): Promise<FailureArtifacts> {
+    if (!config.ON_FAILURE_SCREENSHOT) return undefined;
+    const folder = getArtifactFolder();
+    await checkFolderAndCreate(folder);
+    const capturedAt = new Date().toISOString();
+    const prefix = `${folder}/${capturedAt.replace(/[:.]/g, '-')}_${label.replace(/[^a-zA-Z0-9_-]/g, '_')}`;
+    const artifacts: FailureArtifacts = {
+        label: label,
+        folder: folder,
+        capturedAt: capturedAt,
+        error: options.error === undefined ? undefined : redactText(`${options.error?.name}: ${options.error?.message}`),
+        fullCss: options.fullCss,
+        fullXpath: options.fullXpath
+    };
+    const page = options.page;
+    if (page !== undefined && !page.isClosed()) {
+        artifacts.url = page.url();
+        try {
+            await page.screenshot({ path: `${prefix}_page.png`, fullPage: true, timeout: 10000, mask: getMaskLocators(page) });
+            artifacts.pageScreenshot = `${prefix}_page.png`;
+        } catch (error) {
+            await logger.error(`captureFailureArtifacts :: page screenshot failed - ${error.message}`);
+        }
+        try {
+            const fs = require("fs");
+            fs.writeFileSync(`${prefix}.html`, redactText(await page.content()), 'utf-8');
+            artifacts.html = `${prefix}.html`;
+        } catch (error) {
+            await logger.error(`captureFailureArtifacts :: page html failed - ${error.message}`);
+        }
+    }
+    if (options.element !== undefined && page !== undefined && !page.isClosed()) {
+        try {
+            if (await options.element.count() > 0) {
+                artifacts.fullCss = (await cssPath(options.element)).toString();
+                artifacts.fullXpath = (await xPath(options.element)).toString();
+                await options.element.screenshot({ path: `${prefix}_element.png`, timeout: 5000, mask: getMaskLocators(page) });
+                artifacts.elementScreenshot = `${prefix}_element.png`;
+            }
+        } catch (error) {
+            await logger.error(`captureFailureArtifacts :: element screenshot failed - ${error.message}`);
+        }
+    }
+    artifacts.details = `${prefix}.json`;
+    await writeJsonData(artifacts.details, redactValue(artifacts));
+    await logger.error(`Failure artifacts for [${label}] saved to ${folder}`);
+    return artifacts;
+}
+
+// Set in the async context of withoutFailureCapture, so only the calls made by that action are affected
+const captureSuppressed = new AsyncLocalStorage<boolean>();
+// Wrapped targets whose method is running in the current async context, to tell an outermost call from a nested one
+const activeTargets = new AsyncLocalStorage<Set<object>>();
+
+// Runs the action without capturing artifacts for failing calls, e.g. while an assertion polls an element which is
+// expected to be missing for a while
+export async function withoutFailureCapture<T>(action: () => Promise<T>): Promise<T> {
+    return await captureSuppressed.run(true, action);
+}
+
+/*
+Wraps every async method of the target so that a rejected call triggers `onFailure` once. Methods of the target call
+each other through `this`, so only the outermost call of a chain reports the failure; the error is always rethrown.
+Both the nesting and the suppression are tracked per call chain, so concurrent calls do not affect each other.
+*/
+export function captureOnFailure<T extends object>(target: T, onFailure: (method: string, error: any) => Promise<void>): T {
+    return new Proxy(target, {
+        get(obj, property, receiver) {
+            const value = Reflect.get(obj, property, receiver);
+            if (typeof value !== 'function' || typeof property !== 'string' || property === 'constructor') return value;
+            return function (...args: any[]) {
+                const active = activeTargets.getStore();
+                const nested = active !== undefined && active.has(target);
+                const result = activeTargets.run(new Set(active ?? []).add(target), () => value.apply(receiver, args));
+                if (nested || !(result instanceof Promise)) return result;
+                return result.catch(async (error: any) => {
+                    if (captureSuppressed.getStore() !== true) {
+                        try {
+                            await onFailure(property, error);
+                        } catch (captureError) {
+                            await logger.error(`captureOnFailure :: unable to capture failure of ${property} - ${captureError.message}`);
+                        }
+                    }
+                    throw error;
+                });
+            };
+        }
+    });
+}
@@ -1,4 +1,4 @@
-import * as projectConfig from '../project.config.json'
+import config from './config'
 
 export async function checkFolderAndCreate(folder: string){
     let fs = require("fs");
@@ -14,7 +14,7 @@ export async function writeJsonData(filePath: string, data: any){
 
 export async function readJsonData(filePath: string) {
     let fs = require("fs")
-    await await JSON.parse(fs.readFileSync(filePath))
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'))
 }
 
 export async function readData(filePath: string) {
@@ -28,8 +28,18 @@ export async function isfileExist(filePath: string) {
     return fs.existsSync(filePath)
 }
 
-export async function getTxnFilePath(filePath: string) {
-    return `${process.cwd()}${projectConfig.RUN_TIME_DATA_PATH}/${filename}.json`
+export async function getTxnFilePath(fileName: string) {
+    return `${process.cwd()}${config.RUN_TIME_DATA_PATH}/${fileName}.json`
+}
+
+// Writes to a temporary file next to the target and renames it over, so readers never see a half written file
+export async function writeJsonDataAtomic(filePath: string, data: any){
+    let fs = require("fs")
+    const path = require("path")
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    const tempFile = `${filePath}.${process.pid}.tmp`
+    fs.writeFileSync(tempFile, JSON.stringify(data, null, 2), 'utf-8')
+    fs.renameSync(tempFile, filePath)
 }
 
 export async function getFileNamesFromDir(dirPath: string) {
@@ -61,3 +71,40 @@ export async function makeEmptyFolder(dirPath: string) {
         console.log("folder not created! " + error);
     }
 }
+
+// Serializes writers of the same file across playwright workers with an exclusive `<file>.lock`. A lock older than
+// staleMs is considered left over from a killed process and taken over.
+export async function withFileLock<T>(filePath: string, action: () => Promise<T>, options?: { timeoutMs?: number, staleMs?: number }): Promise<T> {
+    let fs = require("fs")
+    const lockFile = `${filePath}.lock`
+    const timeoutMs = options?.timeoutMs ?? 30000
+    const staleMs = options?.staleMs ?? 60000
+    const startTime = Date.now()
+    let handle: number
+    while (handle === undefined) {
+        try {
+            handle = fs.openSync(lockFile, 'wx')
+        } catch (error) {
+            if (error.code !== 'EEXIST') throw error
+            try {
+                if (Date.now() - fs.statSync(lockFile).mtimeMs > staleMs) fs.unlinkSync(lockFile)
+            } catch (statError) {
+                // released by its owner in the meantime
+            }
+            if (Date.now() - startTime > timeoutMs) {
+                throw new Error(`Timed out after ${timeoutMs} ms waiting for the lock on ${filePath}`)
+            }
+            await new Promise(resolve => setTimeout(resolve, 50))
+        }
+    }
+    try {
+        return await action()
+    } finally {
+        fs.closeSync(handle)
+        try {
+            fs.unlinkSync(lockFile)
+        } catch (error) {
+            // already taken over as stale
+        }
+    }
+}
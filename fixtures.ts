@@ -0,0 +1,64 @@
+import { test as base, TestInfo, TestType } from '@playwright/test';
+import { beginAssertScope, endAssertScope, getTestRuntimeFolder } from './assert.scope';
+import logger, { beginTestLogging, endTestLogging } from './logger';
+import testContext from './testContext';
+import { renderStepTree } from './test.steps';
+
+
+/*
+Playwright test fixtures of the framework. Import `test` from this file instead of '@playwright/test' and every test
+gets its own logger (text and JSON lines files in its runtime folder) and its assertion scope opened before it runs,
+and both closed after it, failing the test when soft assertions failed.
+Suites which keep using '@playwright/test' directly can call `registerAssertScopeHooks(test)` at the top instead.
+*/
+
+
+// Tags playwright collected from the test details ({ tag: '@smoke' }) and @words in the titles, plus the 'tag'
+// annotations of data driven rows
+function getTags(testInfo: TestInfo) {
+    const tags = new Set<string>(testInfo.tags);
+    testInfo.annotations.filter((annotation) => annotation.type === 'tag').forEach((annotation) => tags.add(`@${`${annotation.description}`.replace(/^@/, '')}`));
+    return Array.from(tags);
+}
+
+function scopeOptions(testInfo: TestInfo) {
+    return { testId: testInfo.testId, title: testInfo.titlePath.slice(1).join(' > '), file: testInfo.file, tags: getTags(testInfo) };
+}
+
+async function beginTestScope(testInfo: TestInfo) {
+    const options = scopeOptions(testInfo);
+    beginTestLogging({ folder: getTestRuntimeFolder(options.testId, options.title), testId: options.testId, title: options.title, workerIndex: testInfo.workerIndex });
+    await beginAssertScope(options);
+}
+
+async function endTestScope(testInfo: TestInfo) {
+    try {
+        if (testContext.assertsJson?.steps?.length > 0) {
+            await logger.info(`Steps of [${testContext.assertsJson.title}]:\n${renderStepTree(testContext.assertsJson.steps)}`);
+        }
+        // The aggregated soft failures only fail a test that passed otherwise, never on top of its own error, timeout or skip
+        await endAssertScope({ status: testInfo.status, error: testInfo.error?.message, throwOnSoftFailures: testInfo.status === 'passed' });
+    } finally {
+        await endTestLogging(testInfo.status);
+    }
+}
+
+export const test = base.extend<{ assertScope: void }>({
+    assertScope: [async ({}, use, testInfo) => {
+        await beginTestScope(testInfo);
+        await use();
+        await endTestScope(testInfo);
+    }, { auto: true }]
+});
+
+export function registerAssertScopeHooks(testType: TestType<any, any>) {
+    testType.beforeEach(async ({}, testInfo) => {
+        await beginTestScope(testInfo);
+    });
+    testType.afterEach(async ({}, testInfo) => {
+        await endTestScope(testInfo);
+    });
+}
+
+export { expect } from '@playwright/test';
+export { step } from './test.steps';
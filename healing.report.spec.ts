@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test';
+import healingReport, { mergeHealingReports } from './healing.report';
+
+
+test.describe('mergeHealingReports', () => {
+    let folder: string;
+    let reportFile: string;
+    const savedRunId = process.env.TEST_RUN_ID;
+
+    test.beforeEach(async () => {
+        const fs = require("fs");
+        const os = require("os");
+        const path = require("path");
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'healing-report-'));
+        reportFile = path.join(folder, 'healing-report.json');
+    });
+
+    test.afterEach(async () => {
+        const fs = require("fs");
+        fs.rmSync(folder, { recursive: true, force: true });
+        if (savedRunId === undefined) delete process.env.TEST_RUN_ID;
+        else process.env.TEST_RUN_ID = savedRunId;
+    });
+
+    function healInRun(runId: string, object: string, times: number = 1) {
+        process.env.TEST_RUN_ID = runId;
+        for (let i = 0; i < times; i++) healingReport.record(object, '#save', 'role=button[name="Save"]', 1, 'https://app/auths');
+        healingReport.write(reportFile);
+    }
+
+    test('reports only the locators healed in the run', async () => {
+        healInRun('run-1', 'Auth page.Save button', 2);
+        expect((await mergeHealingReports(reportFile)).map((entry) => entry.object)).toEqual(['Auth page.Save button']);
+        healInRun('run-2', 'Member page.Save button');
+        healInRun('run-2', 'Auth page.Save button');
+        const entries = await mergeHealingReports(reportFile);
+        expect(entries.map((entry) => [entry.runId, entry.object, entry.occurrences])).toEqual([['run-2', 'Member page.Save button', 1], ['run-2', 'Auth page.Save button', 1]]);
+        const fs = require("fs");
+        expect(JSON.parse(fs.readFileSync(reportFile, 'utf-8'))).toMatchObject({ runId: 'run-2', entries: entries });
+        expect(fs.readdirSync(folder)).toEqual(['healing-report.json']);
+    });
+
+    test('reports the latest run without a run id and every run with all', async () => {
+        healInRun('run-1', 'Auth page.Save button');
+        healInRun('run-2', 'Member page.Save button');
+        delete process.env.TEST_RUN_ID;
+        expect((await mergeHealingReports(reportFile, { runId: 'all' })).map((entry) => entry.runId)).toEqual(['run-1', 'run-2']);
+        expect((await mergeHealingReports(reportFile)).map((entry) => entry.runId)).toEqual(['run-2']);
+    });
+});
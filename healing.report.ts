@@ -0,0 +1,132 @@
+import config from './config';
+import { withFileLock } from './file.utils';
+
+
+/*
+Collects the locators which had to be healed during the run, i.e. the primary locator of a UiElement found nothing and
+one of its fallback candidates matched instead. Every worker keeps its own entries and writes them to its own file next
+to the report when it exits (healing-report.<pid>.json), so parallel workers never write the same file. At the end of the
+run `mergeHealingReports` (globalTeardown or `npx ts-node report.cli.ts healing`) folds the worker files into the report,
+which then lists the page objects that need their primary locator updated. Entries carry the run id (TEST_RUN_ID) and the
+report only holds the entries of one run, so locators healed in earlier runs drop out of it.
+*/
+
+
+export type HealingEntry = {
+    runId?: string,
+    object: string,
+    primaryLocator: string,
+    healedLocator: string,
+    candidateIndex: number,
+    url: string,
+    occurrences: number,
+    firstSeen: string,
+    lastSeen: string
+}
+
+export function getHealingReportFile() {
+    return process.env.HEALING_REPORT_FILE ?? `${process.cwd()}${config.RUN_TIME_DATA_PATH}/healing-report.json`;
+}
+
+export default new class HealingReport {
+    private entries = new Map<string, HealingEntry>();
+    private exitHookRegistered = false;
+
+    // Records that `healedLocator` was used instead of `primaryLocator` for the given page object
+    record = (object: string, primaryLocator: string, healedLocator: string, candidateIndex: number, url: string) => {
+        const runId = process.env.TEST_RUN_ID;
+        const key = `${runId}|${object}|${primaryLocator}|${healedLocator}`;
+        const now = new Date().toISOString();
+        const entry = this.entries.get(key);
+        if (entry === undefined) {
+            this.entries.set(key, { runId, object, primaryLocator, healedLocator, candidateIndex, url, occurrences: 1, firstSeen: now, lastSeen: now });
+        } else {
+            entry.occurrences++;
+            entry.lastSeen = now;
+            entry.url = url;
+        }
+        if (!this.exitHookRegistered) {
+            this.exitHookRegistered = true;
+            process.on('exit', () => this.write());
+        }
+    }
+
+    getEntries = () => {
+        return Array.from(this.entries.values());
+    }
+
+    // Writes the entries of this worker to its own file. Synchronous so it can run from the process exit hook
+    write = (filePath: string = getHealingReportFile()) => {
+        if (this.entries.size === 0) return;
+        const fs = require("fs");
+        const path = require("path");
+        const workerFile = getWorkerReportFile(filePath, process.pid);
+        fs.mkdirSync(path.dirname(workerFile), { recursive: true });
+        const merged = mergeEntries(readEntries(workerFile), this.getEntries());
+        fs.writeFileSync(workerFile, JSON.stringify({ generatedAt: new Date().toISOString(), entries: merged }, null, 2), 'utf-8');
+        this.entries.clear();
+    }
+}
+
+function getWorkerReportFile(filePath: string, pid: number) {
+    const path = require("path");
+    return `${path.dirname(filePath)}/${path.basename(filePath, '.json')}.${pid}.json`;
+}
+
+function readEntries(filePath: string): HealingEntry[] {
+    const fs = require("fs");
+    if (!fs.existsSync(filePath)) return [];
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf-8')).entries ?? [];
+    } catch (error) {
+        return [];
+    }
+}
+
+function mergeEntries(merged: HealingEntry[], entries: HealingEntry[]) {
+    for (const entry of entries) {
+        const existing = merged.find((e) => e.runId === entry.runId && e.object === entry.object && e.primaryLocator === entry.primaryLocator && e.healedLocator === entry.healedLocator);
+        if (existing === undefined) {
+            merged.push({ ...entry });
+        } else {
+            existing.occurrences += entry.occurrences;
+            existing.firstSeen = existing.firstSeen < entry.firstSeen ? existing.firstSeen : entry.firstSeen;
+            existing.lastSeen = existing.lastSeen > entry.lastSeen ? existing.lastSeen : entry.lastSeen;
+            existing.url = entry.url;
+        }
+    }
+    return merged;
+}
+
+// Run of the most recently healed locator, the later entry on a tie; for a merge without run id
+function getLatestRunId(entries: HealingEntry[]) {
+    const latest = entries.reduce((newest, entry) => newest === undefined || entry.lastSeen >= newest.lastSeen ? entry : newest, undefined as HealingEntry);
+    return latest?.runId;
+}
+
+/*
+Folds the worker files into the report file and deletes them, returning the entries of the report. The report keeps the
+entries of one run: the given runId, else TEST_RUN_ID, else the run of the latest entry; runId 'all' keeps every run.
+*/
+export async function mergeHealingReports(filePath: string = getHealingReportFile(), options?: { runId?: string }): Promise<HealingEntry[]> {
+    const fs = require("fs");
+    const path = require("path");
+    const folder = path.dirname(filePath);
+    if (!fs.existsSync(folder)) return [];
+    const prefix = `${path.basename(filePath, '.json')}.`;
+    return await withFileLock(filePath, async () => {
+        const workerFiles = fs.readdirSync(folder)
+            .filter((name: string) => name.startsWith(prefix) && /^\d+\.json$/.test(name.substring(prefix.length)))
+            .map((name: string) => `${folder}/${name}`);
+        let merged = readEntries(filePath);
+        for (const workerFile of workerFiles) merged = mergeEntries(merged, readEntries(workerFile));
+        const requestedRunId = options?.runId ?? process.env.TEST_RUN_ID;
+        const runId = requestedRunId ?? getLatestRunId(merged);
+        const entries = requestedRunId === 'all' ? merged : merged.filter((entry) => entry.runId === runId);
+        if (workerFiles.length > 0 || entries.length < merged.length) {
+            fs.writeFileSync(filePath, JSON.stringify({ generatedAt: new Date().toISOString(), runId: requestedRunId === 'all' ? undefined : runId, entries: entries }, null, 2), 'utf-8');
+            workerFiles.forEach((workerFile: string) => fs.unlinkSync(workerFile));
+        }
+        return entries;
+    });
+}
@@ -0,0 +1,223 @@
+import { redactText } from './logger';
+import { RunSummary, TestResult, collectTestResults, formatDuration, getAssertionName, getResultsFolder, isFailed, summarize } from './run.results';
+
+
+/*
+Self-contained HTML report of a run, built from the per-test runtime folders (run.results.ts): summary of the run and of
+every suite, and per test the step timeline, the soft assertion failures, hard and action failures, the failure
+screenshots and the test log. Styles, script and screenshots are inlined, so the single file opens offline and can be
+attached to a ticket or a CI run. Logs are already masked when written and are passed through redactText once more.
+    npx ts-node report.cli.ts html [--results <folder>] [--out <file>] [--title <title>]
+*/
+
+
+export type HtmlReportOptions = {
+    resultsFolder?: string,
+    outputFile?: string,
+    title?: string,
+    runId?: string,
+    // Larger screenshots are linked instead of embedded
+    maxScreenshotKb?: number,
+    // Only the end of longer logs is embedded
+    maxLogKb?: number
+}
+
+const STYLE = `
+body { font-family: Segoe UI, Arial, sans-serif; margin: 0; color: #222; background: #f4f5f7; }
+header { background: #263238; color: #fff; padding: 16px 24px; }
+header h1 { margin: 0 0 4px 0; font-size: 20px; }
+main { padding: 16px 24px; }
+.cards { display: flex; gap: 12px; margin-bottom: 16px; flex-wrap: wrap; }
+.card { background: #fff; border-radius: 4px; padding: 10px 16px; min-width: 110px; box-shadow: 0 1px 2px rgba(0,0,0,.15); }
+.card b { display: block; font-size: 22px; }
+.filters { margin: 12px 0; display: flex; gap: 12px; align-items: center; }
+table { border-collapse: collapse; width: 100%; background: #fff; margin-bottom: 12px; }
+th, td { border: 1px solid #dde; padding: 4px 8px; text-align: left; vertical-align: top; font-size: 13px; }
+th { background: #eceff1; }
+.status { font-weight: bold; text-transform: uppercase; font-size: 11px; }
+.passed { color: #2e7d32; } .failed, .timedOut, .interrupted { color: #c62828; } .skipped, .running { color: #757575; }
+.test { background: #fff; margin-bottom: 8px; border-radius: 4px; box-shadow: 0 1px 2px rgba(0,0,0,.15); }
+.test > summary { padding: 8px 12px; cursor: pointer; }
+.test .body { padding: 0 12px 12px 12px; }
+.tag { background: #e3f2fd; color: #1565c0; border-radius: 3px; padding: 0 4px; margin-left: 4px; font-size: 11px; }
+.timeline .bar-cell { width: 45%; }
+.bar { position: relative; height: 12px; background: #eceff1; }
+.bar span { position: absolute; top: 0; bottom: 0; min-width: 2px; }
+.bar .passed { background: #66bb6a; } .bar .failed { background: #ef5350; } .bar .running { background: #bdbdbd; }
+.screenshots img { max-width: 48%; border: 1px solid #ccc; margin: 4px; }
+pre { background: #263238; color: #eceff1; padding: 8px; overflow: auto; max-height: 400px; font-size: 12px; }
+.error { color: #c62828; white-space: pre-wrap; }
+.hidden { display: none; }
+`;
+
+// Shows the test rows and sections matching the status, tag and title filters, driven by their data-* attributes
+const SCRIPT = `
+function applyFilters() {
+    var status = document.getElementById('statusFilter').value;
+    var tag = document.getElementById('tagFilter').value;
+    var text = document.getElementById('textFilter').value.toLowerCase();
+    document.querySelectorAll('[data-status]').forEach(function (element) {
+        var statusMatch = status === '' || element.getAttribute('data-status') === status
+            || (status === 'failed' && ['timedOut', 'interrupted'].indexOf(element.getAttribute('data-status')) >= 0);
+        var tagMatch = tag === '' || element.getAttribute('data-tags').split(' ').indexOf(tag) >= 0;
+        var textMatch = text === '' || element.getAttribute('data-title').toLowerCase().indexOf(text) >= 0;
+        element.classList.toggle('hidden', !(statusMatch && tagMatch && textMatch));
+    });
+}
+`;
+
+export function escapeHtml(value: any) {
+    return `${value ?? ''}`.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+function statusLabel(status: string) {
+    return `<span class="status ${escapeHtml(status)}">${escapeHtml(status)}</span>`;
+}
+
+function testAttributes(result: TestResult) {
+    return `data-status="${escapeHtml(result.status)}" data-tags="${escapeHtml(result.tags.join(' '))}" data-title="${escapeHtml(result.title)}"`;
+}
+
+function renderSummary(summary: RunSummary) {
+    const cards: [string, any][] = [
+        ['Tests', summary.total], ['Passed', summary.passed], ['Failed', summary.failed], ['Skipped', summary.skipped],
+        ...(summary.running > 0 ? [['Not finished', summary.running] as [string, any]] : []),
+        ['Soft failures', summary.softFailures], ['Duration', formatDuration(summary.durationMs)]
+    ];
+    return `<div class="cards">${cards.map(([label, value]) => `<div class="card">${escapeHtml(label)}<b>${escapeHtml(value)}</b></div>`).join('')}</div>`;
+}
+
+function renderSuites(results: TestResult[]) {
+    const suites = Array.from(new Set(results.map((result) => result.suite)));
+    const rows = suites.map((suite) => {
+        const tests = results.filter((result) => result.suite === suite);
+        const summary = summarize(tests);
+        return `<tr><td>${escapeHtml(suite)}</td><td>${summary.total}</td><td class="passed">${summary.passed}</td><td class="failed">${summary.failed}</td>`
+            + `<td>${summary.skipped}</td><td>${summary.softFailures}</td><td>${formatDuration(tests.reduce((total, test) => total + test.durationMs, 0))}</td></tr>`;
+    });
+    return `<table><tr><th>Suite</th><th>Tests</th><th>Passed</th><th>Failed</th><th>Skipped</th><th>Soft failures</th><th>Duration</th></tr>${rows.join('')}</table>`;
+}
+
+function renderTestRows(results: TestResult[]) {
+    const rows = results.map((result) => `<tr ${testAttributes(result)}><td><a href="#test-${escapeHtml(result.testId)}">${escapeHtml(result.title)}</a>`
+        + `${result.tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`).join('')}</td><td>${statusLabel(result.status)}</td>`
+        + `<td>${result.soft.length}</td><td>${formatDuration(result.durationMs)}</td></tr>`);
+    return `<table><tr><th>Test</th><th>Status</th><th>Soft failures</th><th>Duration</th></tr>${rows.join('')}</table>`;
+}
+
+// Steps flattened with their depth; the bars are placed relative to the start and duration of the test
+function renderTimeline(result: TestResult) {
+    if (result.steps.length === 0) return '';
+    const testStart = new Date(result.startedAt).getTime();
+    const testDuration = Math.max(result.durationMs, 1);
+    const rows: string[] = [];
+    const addRows = (steps: any[], depth: number) => steps.forEach((node) => {
+        const offset = Math.min(100, Math.max(0, (new Date(node.startedAt).getTime() - testStart) / testDuration * 100));
+        const width = Math.min(100 - offset, (node.durationMs ?? 0) / testDuration * 100);
+        const details = [node.softFailures > 0 ? `${node.softFailures} soft failure(s)` : '', node.error ?? ''].filter((text) => text !== '').join(' - ');
+        rows.push(`<tr><td style="padding-left:${8 + depth * 16}px">${escapeHtml(node.title)}</td><td>${statusLabel(node.status)}</td>`
+            + `<td>${formatDuration(node.durationMs)}</td><td class="bar-cell"><div class="bar"><span class="${escapeHtml(node.status)}" style="left:${offset.toFixed(2)}%;width:${width.toFixed(2)}%"></span></div></td>`
+            + `<td class="error">${escapeHtml(details)}</td></tr>`);
+        addRows(node.children ?? [], depth + 1);
+    });
+    addRows(result.steps, 0);
+    return `<h4>Steps</h4><table class="timeline"><tr><th>Step</th><th>Status</th><th>Duration</th><th>Timeline</th><th>Details</th></tr>${rows.join('')}</table>`;
+}
+
+function renderAssertions(heading: string, records: any[]) {
+    if (records.length === 0) return '';
+    const rows = records.map((record) => `<tr><td>${escapeHtml(record.step ?? '')}</td><td>${escapeHtml(getAssertionName(record))}</td><td>${escapeHtml(record.message)}</td>`
+        + `<td>${escapeHtml(record.Actual)}</td><td>${escapeHtml(record.expected)}</td></tr>`);
+    return `<h4>${escapeHtml(heading)}</h4><table><tr><th>Step</th><th>Assertion</th><th>Message</th><th>Actual</th><th>Expected</th></tr>${rows.join('')}</table>`;
+}
+
+function renderActionFailures(records: any[]) {
+    if (records.length === 0) return '';
+    const rows = records.map((record) => `<tr><td>${escapeHtml(record.step ?? '')}</td><td>${escapeHtml(record.action)}</td><td>${escapeHtml(record.object)}</td><td class="error">${escapeHtml(record.error)}</td></tr>`);
+    return `<h4>Action failures</h4><table><tr><th>Step</th><th>Action</th><th>Object</th><th>Error</th></tr>${rows.join('')}</table>`;
+}
+
+function renderScreenshots(result: TestResult, outputFile: string, maxScreenshotKb: number) {
+    if (result.screenshots.length === 0) return '';
+    const fs = require("fs");
+    const path = require("path");
+    const images = result.screenshots.map((file) => {
+        const name = escapeHtml(path.basename(file));
+        if (fs.statSync(file).size > maxScreenshotKb * 1024) {
+            return `<div><a href="${escapeHtml(path.relative(path.dirname(outputFile), file).split(path.sep).join('/'))}">${name}</a> (not embedded, too large)</div>`;
+        }
+        return `<img src="data:image/png;base64,${fs.readFileSync(file).toString('base64')}" alt="${name}" title="${name}">`;
+    });
+    return `<h4>Screenshots</h4><div class="screenshots">${images.join('')}</div>`;
+}
+
+function renderLog(result: TestResult, maxLogKb: number) {
+    if (result.logFile === undefined) return '';
+    const fs = require("fs");
+    let log: string = fs.readFileSync(result.logFile, 'utf-8');
+    const maxLength = maxLogKb * 1024;
+    if (log.length > maxLength) log = `... ${log.length - maxLength} characters left out ...\n${log.substring(log.length - maxLength)}`;
+    return `<details><summary>Log</summary><pre>${escapeHtml(redactText(log))}</pre></details>`;
+}
+
+function renderTest(result: TestResult, outputFile: string, options: HtmlReportOptions) {
+    const tags = result.tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`).join('');
+    return `<details class="test" id="test-${escapeHtml(result.testId)}" ${testAttributes(result)}${isFailed(result) ? ' open' : ''}>`
+        + `<summary>${statusLabel(result.status)} ${escapeHtml(result.title)}${tags} <small>(${formatDuration(result.durationMs)})</small></summary><div class="body">`
+        + `<p><small>${escapeHtml(result.file ?? '')} - started ${escapeHtml(result.startedAt)}</small></p>`
+        + (result.error === undefined ? '' : `<p class="error">${escapeHtml(redactText(result.error))}</p>`)
+        + renderTimeline(result)
+        + renderAssertions('Soft assertion failures', result.soft)
+        + renderAssertions('Hard assertion failures', result.hard)
+        + renderActionFailures(result.actionFailures)
+        + renderScreenshots(result, outputFile, options.maxScreenshotKb ?? 2048)
+        + renderLog(result, options.maxLogKb ?? 512)
+        + `</div></details>`;
+}
+
+export function renderHtmlReport(results: TestResult[], options?: HtmlReportOptions) {
+    const outputFile = options?.outputFile ?? `${options?.resultsFolder ?? getResultsFolder()}/report.html`;
+    const summary = summarize(results);
+    const title = options?.title ?? `Test report${summary.runId === undefined ? '' : ` - ${summary.runId}`}`;
+    const tags = Array.from(new Set(results.flatMap((result) => result.tags))).sort();
+    const statuses = Array.from(new Set(results.map((result) => result.status))).sort();
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+<script>${SCRIPT}</script>
+</head>
+<body>
+<header><h1>${escapeHtml(title)}</h1><small>${escapeHtml(summary.startedAt ?? '')} - ${escapeHtml(summary.endedAt ?? '')}, generated ${escapeHtml(new Date().toISOString())}</small></header>
+<main>
+${renderSummary(summary)}
+<h3>Suites</h3>
+${renderSuites(results)}
+<div class="filters">
+<label>Status <select id="statusFilter" onchange="applyFilters()"><option value="">all</option>${statuses.map((status) => `<option value="${escapeHtml(status)}">${escapeHtml(status)}</option>`).join('')}</select></label>
+<label>Tag <select id="tagFilter" onchange="applyFilters()"><option value="">all</option>${tags.map((tag) => `<option value="${escapeHtml(tag)}">${escapeHtml(tag)}</option>`).join('')}</select></label>
+<label>Title <input id="textFilter" oninput="applyFilters()"></label>
+</div>
+<h3>Tests</h3>
+${renderTestRows(results)}
+${results.map((result) => renderTest(result, outputFile, options ?? {})).join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+// Writes the report of the results folder and returns its path
+export function generateHtmlReport(options?: HtmlReportOptions) {
+    const fs = require("fs");
+    const path = require("path");
+    const resultsFolder = options?.resultsFolder ?? getResultsFolder();
+    const outputFile = options?.outputFile ?? `${resultsFolder}/report.html`;
+    const results = collectTestResults(resultsFolder, { runId: options?.runId });
+    fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+    fs.writeFileSync(outputFile, renderHtmlReport(results, { ...options, resultsFolder, outputFile }), 'utf-8');
+    console.log(`HTML report of ${results.length} test(s) written to ${outputFile}`);
+    return outputFile;
+}
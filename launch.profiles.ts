@@ -0,0 +1,70 @@
+import { BrowserContextOptions, LaunchOptions, devices } from 'playwright';
+import config, { resolveProjectPath } from './config';
+
+
+/*
+Named browser launch profiles. Profiles live under LAUNCH_PROFILES in project.config.json and are picked per run with
+the LAUNCH_PROFILE environment variable (falling back to DEFAULT_LAUNCH_PROFILE). A profile describes both how the
+browser is launched and how its BrowserContext is created, so suites no longer assemble the context by hand.
+*/
+
+
+export type LaunchProfile = {
+    browser?: string,
+    channel?: string,
+    headless?: boolean,
+    slowMo?: number,
+    args?: string[],
+    proxy?: { server: string, bypass?: string, username?: string, password?: string },
+    device?: string,
+    viewport?: { width: number, height: number } | null,
+    locale?: string,
+    timezoneId?: string,
+    downloadsPath?: string,
+    storageState?: string
+}
+
+export function getLaunchProfileName(name?: string) {
+    return name ?? process.env.LAUNCH_PROFILE ?? config.DEFAULT_LAUNCH_PROFILE;
+}
+
+export function getLaunchProfile(name?: string): LaunchProfile {
+    const profileName = getLaunchProfileName(name);
+    const profiles = config.LAUNCH_PROFILES;
+    const profile = profiles[profileName];
+    if (profile === undefined) {
+        throw new Error(`Launch profile [${profileName}] is not defined in LAUNCH_PROFILES, available profiles: ${Object.keys(profiles).join(', ')}`);
+    }
+    return profile;
+}
+
+export function getLaunchOptions(profile: LaunchProfile, options?: { headless?: boolean, channel?: string }): LaunchOptions {
+    const launchOptions: LaunchOptions = {
+        headless: options?.headless ?? profile.headless ?? true
+    };
+    const channel = options?.channel || profile.channel;
+    if (channel) launchOptions.channel = channel;
+    if (profile.slowMo !== undefined) launchOptions.slowMo = profile.slowMo;
+    if (profile.args !== undefined) launchOptions.args = profile.args;
+    if (profile.proxy !== undefined) launchOptions.proxy = profile.proxy;
+    if (profile.downloadsPath !== undefined) launchOptions.downloadsPath = resolveProjectPath(profile.downloadsPath);
+    return launchOptions;
+}
+
+export function getContextOptions(profile: LaunchProfile): BrowserContextOptions {
+    let contextOptions: BrowserContextOptions = {};
+    if (profile.device !== undefined) {
+        const descriptor = devices[profile.device];
+        if (descriptor === undefined) {
+            throw new Error(`Device [${profile.device}] is not a known playwright device descriptor`);
+        }
+        contextOptions = { ...descriptor };
+    }
+    if (profile.viewport !== undefined) contextOptions.viewport = profile.viewport;
+    if (profile.locale !== undefined) contextOptions.locale = profile.locale;
+    if (profile.timezoneId !== undefined) contextOptions.timezoneId = profile.timezoneId;
+    if (profile.proxy !== undefined) contextOptions.proxy = profile.proxy;
+    if (profile.downloadsPath !== undefined) contextOptions.acceptDownloads = true;
+    if (profile.storageState !== undefined) contextOptions.storageState = resolveProjectPath(profile.storageState);
+    return contextOptions;
+}
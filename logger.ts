@@ -1,4 +1,5 @@
-import testContext from './testContext';
+import testContext, { getCurrentStepPath } from './testContext';
+import config from './config';
 
 
 /*
@@ -13,28 +14,178 @@ in effective debugging and reporting.
 
 
 
-// Exporting a new instance of a Logger class with two methods: info and error
+/*
+Redaction layer. Everything the framework writes - log messages on every transport, the assertion records persisted from
+testContext.assertsJson and the failure artifacts - passes through redactText/redactValue first, which masks:
+  - secret values registered at runtime: credentials resolved by the vault for the whole worker, values typed into
+    password fields for the running test only
+  - matches of the REDACTION_PATTERNS regular expressions (tokens, SSNs, ...)
+  - values of fields named in REDACTION_FIELDS, both as object keys and as "name: value" / "name=value" in text
+*/
+const MASK = '******';
+const secrets = new Set<string>();
+const testSecrets = new Set<string>();
+const patterns: RegExp[] = config.REDACTION_PATTERNS.map((pattern) => new RegExp(pattern, 'g'));
+const fieldNames = new Set<string>(config.REDACTION_FIELDS.map((field) => normalizeFieldName(field)));
+let fieldRule: RegExp = buildFieldRule();
+
+function normalizeFieldName(name: string) {
+    return `${name}`.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function buildFieldRule() {
+    if (fieldNames.size === 0) return undefined;
+    // The field name may be written with separators in text ("member id", "member_id") which normalization dropped
+    const names = Array.from(fieldNames).map((name) => name.split('').join('[ _-]?'));
+    return new RegExp(`(["']?\\b(?:${names.join('|')})\\b["']?\\s*[:=]\\s*)("[^"]*"|'[^']*'|[^\\s,;&}\\]]+)`, 'gi');
+}
+
+export function isRedactedField(name: string) {
+    return fieldNames.has(normalizeFieldName(name));
+}
+
+// Words of a description, camelCase and digits split off: "txtNewPassword2" gives txt, new, password, 2
+function toWords(text: string) {
+    return `${text}`.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+        .replace(/([a-zA-Z])(\d)/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter((word) => word !== '');
+}
+
+/*
+True when a description such as "Password textbox" or "Member ID input" names a redacted field. Field names match whole
+words or runs of consecutive words ("Member ID" for memberId), so "Business Name" does not match ssn.
+*/
+export function mentionsRedactedField(text: string) {
+    const words = toWords(text);
+    return words.some((word, start) => {
+        let run = '';
+        return words.slice(start).some((next) => fieldNames.has(run += next));
+    });
+}
+
+function isSecretValue(value: string) {
+    // Very short values would mask unrelated text, they are left alone
+    return value !== undefined && value !== null && `${value}`.length >= 4;
+}
+
+// Forgets the secrets registered for the test which just ended, see registerTestSecret
+export function clearTestSecrets() {
+    testSecrets.clear();
+}
+
+export function redactText(text: string) {
+    if (text === undefined || text === null) return text;
+    let redacted = `${text}`;
+    // Longest first, so a secret containing another one is masked as a whole
+    for (const secret of [...Array.from(secrets), ...Array.from(testSecrets)].sort((a, b) => b.length - a.length)) {
+        redacted = redacted.split(secret).join(MASK);
+    }
+    for (const pattern of patterns) {
+        redacted = redacted.replace(pattern, MASK);
+    }
+    return fieldRule === undefined ? redacted : redacted.replace(fieldRule, (match: string, name: string, value: string) => {
+        const quote = /^["']/.test(value) ? value[0] : '';
+        return `${name}${quote}${MASK}${quote}`;
+    });
+}
+
+// Redacted deep copy of a value, e.g. the assertion records before they are persisted
+export function redactValue<T>(value: T): T {
+    if (typeof value === 'string') return redactText(value) as any;
+    if (Array.isArray(value)) return value.map((item) => redactValue(item)) as any;
+    if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+        const copy: any = {};
+        for (const key of Object.keys(value)) {
+            copy[key] = isRedactedField(key) && (value as any)[key] !== null && typeof (value as any)[key] !== 'object' ? MASK : redactValue((value as any)[key]);
+        }
+        return copy;
+    }
+    return value;
+}
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+const LEVELS: Record<LogLevel, number> = { error: 0, warn: 1, info: 2, debug: 3 };
+let currentLevel: LogLevel = config.LOG_LEVEL as LogLevel;
+
+/*
+Redacts the message and hands it to the logger of the test context together with the session and step it belongs to.
+Outside of a test, e.g. in globalSetup, there is no test logger and the message only goes to the console.
+*/
+function write(level: LogLevel, msg: string, toConsole: boolean) {
+    if (LEVELS[level] > LEVELS[currentLevel]) return;
+    const redacted = redactText(msg);
+    if (testContext.logger !== undefined) {
+        testContext.logger.log(level, redacted, { session: testContext.logContext?.session, step: getCurrentStepPath() });
+    }
+    if (toConsole || testContext.logger === undefined) {
+        (level === 'error' ? console.error : level === 'warn' ? console.warn : console.log)(redacted);
+    }
+}
+
+// Exporting a new instance of a Logger class with the logging methods debug, info, warn and error
 export default new class Logger {
+    // Registers a secret value (password, token, connection string) to be masked wherever it is written
+    registerSecret = (value: string) => {
+        if (isSecretValue(value)) secrets.add(`${value}`);
+    }
+
+    // Registers a secret of the running test, e.g. a value typed into a password field, masked until the test ends
+    registerTestSecret = (value: string) => {
+        if (isSecretValue(value)) testSecrets.add(`${value}`);
+    }
+
+    // Adds a pattern at runtime, e.g. the format of an id which only one suite handles
+    addRedactionPattern = (pattern: RegExp | string) => {
+        const source = pattern instanceof RegExp ? pattern.source : pattern;
+        const flags = pattern instanceof RegExp ? pattern.flags : '';
+        patterns.push(new RegExp(source, flags.includes('g') ? flags : `${flags}g`));
+    }
+
+    addRedactedField = (name: string) => {
+        fieldNames.add(normalizeFieldName(name));
+        fieldRule = buildFieldRule();
+    }
+
+    // Changes the level for the rest of the run, e.g. setLevel('debug') while investigating one test
+    setLevel = (level: LogLevel) => {
+        currentLevel = level;
+        if (testContext.logger !== undefined) testContext.logger.level = level;
+    }
+
+    // Method for logging detailed diagnostics, written only when LOG_LEVEL is debug
+    debug = async (msg: string) => {
+        write('debug', msg, false);
+    }
+
     // Method for logging informational messages
     info = async (msg: string) => {
-        // Logging the message using the logger from the test context
-        testContext.logger.info(msg);
-        // Check if the message contains the word 'password' in any case
-        if (!msg.toLowerCase().includes('password')) {
-            // Log the message to the console if it does not contain 'password'
-            console.log(msg);
-        }
+        // Logged to the test logger and to the console
+        write('info', msg, true);
+    }
+
+    // Method for logging warning messages, e.g. a locator which only worked through a fallback
+    warn = async (msg: string) => {
+        // Warnings are also shown on the console
+        write('warn', msg, true);
     }
 
     // Method for logging error messages
     error = async (msg: string) => {
-        // Logging the error message using the logger from the test context
-        testContext.logger.error(msg);
+        // Logging the error message using the logger from the test context only
+        write('error', msg, false);
     }
 }
 
 // Importing required modules from Winston for logging configuration
-import { transports, format } from "winston";
+import { createLogger, transports, format, Logger as WinstonLogger } from "winston";
+
+// Redacts the message and metadata of every log entry, for loggers which are not fed through the Logger class above
+export const redactFormat = format((info) => {
+    for (const key of Object.keys(info)) {
+        if (key !== 'level') (info as any)[key] = isRedactedField(key) ? MASK : redactValue((info as any)[key]);
+    }
+    return info;
+});
 
 // Function for configuring logging options
 export function options(loggerOptions: { fileName: string, logfileFolder: string }) {
@@ -42,13 +193,15 @@ export function options(loggerOptions: { fileName: string, logfileFolder: string
         // Specify the transports for logging (writing to files in this case)
         transport: [
             // Creating a file transport to write logs to a file
-            new transports.file({
+            new transports.File({
                 // Set the filename and folder for the log file
                 filename: `${loggerOptions.logfileFolder}/${loggerOptions.fileName}.log`,
-                // Set the log level to 'info'
-                level: 'info',
+                // Set the log level from LOG_LEVEL
+                level: config.LOG_LEVEL,
                 // Specify the log message format
                 format: format.combine(
+                    // Mask secrets and PHI before anything is written
+                    redactFormat(),
                     // Add a timestamp to log messages
                     format.timestamp({
                         format: 'YYYY-MM-DD HH:mm:ss'
@@ -62,3 +215,69 @@ export function options(loggerOptions: { fileName: string, logfileFolder: string
         ]
     }
 };
+
+// Line of the human readable log, e.g. [2024-05-01 10:00:00.123] INFO  [w1 default > Create case]: clicked Save
+const textLine = format.printf((info: any) => `[${info.timestamp}] ${info.level.toUpperCase().padEnd(5)} [w${info.worker} ${info.session ?? '-'}${info.step ? ` > ${info.step}` : ''}]: ${info.message}`);
+
+/*
+Child logger of one test writing the same entries twice: `<folder>/test.log` for reading and `<folder>/test.jsonl` with
+one JSON object per line (testId, worker, session, step, level, message, timestamp) for tooling. Both are redacted.
+*/
+export function createTestLogger(options: { folder: string, testId: string, title: string, workerIndex: number, level?: LogLevel }) {
+    return createLogger({
+        level: options.level ?? currentLevel,
+        levels: LEVELS,
+        defaultMeta: { testId: options.testId, worker: options.workerIndex },
+        transports: [
+            new transports.File({
+                filename: `${options.folder}/test.log`,
+                format: format.combine(redactFormat(), format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss.SSS' }), textLine)
+            }),
+            new transports.File({
+                filename: `${options.folder}/test.jsonl`,
+                format: format.combine(redactFormat(), format.timestamp(), format.json())
+            })
+        ]
+    });
+}
+
+// Logger of the worker, put back when the test ends, and the logger of the running test
+let workerLogger: WinstonLogger;
+let activeTestLogger: WinstonLogger;
+
+// Resolves once every file transport has written its last entry, the logger itself finishes before they have flushed
+async function closeLogger(testLogger: WinstonLogger) {
+    const flushed = testLogger.transports.map((transport) => new Promise<void>((resolve) => transport.once('finish', () => resolve())));
+    testLogger.end();
+    await Promise.all(flushed);
+}
+
+// Gives the test its own logger so that parallel tests never share a log file; the worker's logger is restored at the end
+export function beginTestLogging(options: { folder: string, testId: string, title: string, workerIndex: number }) {
+    let fs = require("fs");
+    fs.mkdirSync(options.folder, { recursive: true });
+    if (activeTestLogger === undefined) {
+        workerLogger = testContext.logger;
+    } else {
+        // The previous test never reached endTestLogging, its files are closed and the worker's logger is kept
+        activeTestLogger.end();
+    }
+    activeTestLogger = createTestLogger(options);
+    testContext.logger = activeTestLogger;
+    testContext.runtimeLoggerFile = `${options.folder}/test.log`;
+    testContext.logContext = { session: undefined };
+    testContext.logger.info(`Test started: ${options.title}`, { title: options.title });
+}
+
+// Flushes and closes the files of the test logger, then forgets the secrets of the test
+export async function endTestLogging(status?: string) {
+    const testLogger = activeTestLogger;
+    if (testLogger !== undefined) {
+        testLogger.info(`Test finished: ${status ?? 'unknown'}`);
+        activeTestLogger = undefined;
+        testContext.logger = workerLogger;
+        workerLogger = undefined;
+        await closeLogger(testLogger);
+    }
+    clearTestSecrets();
+}
@@ -0,0 +1,34 @@
+import { notifyRun } from './run.notifier';
+
+
+/*
+Sends the summary of a finished run to the notification sinks, see run.notifier.ts:
+    npx ts-node notify.cli.ts [--sinks slack,teams,http,file] [--results <folder>] [--run <runId>] [--report-url <url>] [--dry-run]
+Without --sinks the sinks of NOTIFY_SINKS are used. The exit code is 1 when any sink could not be notified.
+*/
+
+
+function readOption(args: string[], name: string) {
+    const index = args.indexOf(name);
+    if (index < 0) return undefined;
+    if (args[index + 1] === undefined || args[index + 1].startsWith('--')) throw new Error(`${name} expects a value`);
+    return args[index + 1];
+}
+
+async function run(args: string[]) {
+    const sinks = readOption(args, '--sinks');
+    const deliveries = await notifyRun({
+        resultsFolder: readOption(args, '--results'),
+        runId: readOption(args, '--run'),
+        reportUrl: readOption(args, '--report-url'),
+        sinks: sinks === undefined ? undefined : sinks.split(',').map((sink) => sink.trim()).filter((sink) => sink !== ''),
+        dryRun: args.includes('--dry-run')
+    });
+    if (deliveries.length === 0) console.warn('No notification sinks configured, set NOTIFY_SINKS or pass --sinks');
+    if (deliveries.some((delivery) => delivery.error !== undefined)) process.exitCode = 1;
+}
+
+run(process.argv.slice(2)).catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+});
@@ -1,6 +1,32 @@
 import { playwright, Locator, Page, Browser, APIRequestContext, Chromium, firefox, webkit } from 'playwright';
-import logger from './logger';
+import logger, { mentionsRedactedField } from './logger';
+import testContext, { getCurrentStepPath } from './testContext';
 import { cssPath, xPath } from "playwright-dompath";
+import sessions, { DEFAULT_SESSION } from './session';
+import config from './config';
+import { WaitAction, WaitPolicy, getWaitPolicy, resolveWaitTimeout } from './wait.policy';
+import { RetryPolicy, resolveRetryPolicy, withRetry } from './retry.policy';
+import { captureFailureArtifacts, captureOnFailure } from './failure.artifacts';
+import { persistAsserts } from './assert.scope';
+import healingReport from './healing.report';
+import { RowCriteria, TableModel, TableRecord, readTableGrid } from './table.model';
+import { PagerConfig, createRowDeduplicator, getMaxPages, getRowKeyAttributes, getRowKeys, moveToNextPage, preparePager } from './table.pager';
+import { TableSnapshot, exportSnapshot, snapshotFromRecords } from './table.snapshot';
+import { getContextOptions, getLaunchOptions, getLaunchProfile, getLaunchProfileName } from './launch.profiles';
+
+
+export type LocatorHints = { fallbackLocators?: string[], role?: { role: string, name?: string }, text?: string, testId?: string };
+
+// Orders the primary locator, the fallback locators and the role/text/test-id hints into playwright selectors. Hint values
+// are written as JSON strings, the quoting playwright selectors accept, so quotes and backslashes in names stay literal
+function buildLocatorCandidates(locator: string | string[], hints?: LocatorHints) {
+    const candidates = Array.isArray(locator) ? [...locator] : [locator];
+    candidates.push(...(hints?.fallbackLocators ?? []));
+    if (hints?.testId !== undefined) candidates.push(`data-testid=${JSON.stringify(hints.testId)}`);
+    if (hints?.role !== undefined) candidates.push(hints.role.name === undefined ? `role=${hints.role.role}` : `role=${hints.role.role}[name=${JSON.stringify(hints.role.name)}]`);
+    if (hints?.text !== undefined) candidates.push(`text=${JSON.stringify(hints.text)}`);
+    return candidates.filter((candidate, index) => candidate && candidates.indexOf(candidate) === index);
+}
 
 
 abstract class UiActions {
@@ -14,28 +40,64 @@ abstract class UiActions {
     protected fullXpath: string;
     protected tempLocator: Locator;
     protected tempLocators: Locator[];
+    protected sessionName: string;
+    protected waitPolicy: Partial<WaitPolicy>;
+    protected retryPolicy: Partial<RetryPolicy>;
+    protected locatorCandidates: string[];
 
     
-    constructor(locator: string, options?: { description?: string, isPopup?: boolean, pageIndex?: number }) {
+    constructor(locator: string, options?: { description?: string, isPopup?: boolean, pageIndex?: number, session?: string, waitPolicy?: Partial<WaitPolicy>, retryPolicy?: Partial<RetryPolicy> }) {
         this.locator = locator;
+        this.locatorCandidates = [locator];
         this.fullCss = this.locator;
         this.isPopupExist = options?.isPopup?.valueOf() !== undefined ? options?.isPopup?.valueOf() : false;
         this.pageIndex = options?.pageIndex?.valueOf() !== undefined ? options?.pageIndex?.valueOf() : 0;
         this.objectDescriptor = options?.description?.valueOf() !== undefined ? options?.description?.valueOf() : 'Object - ';
+        this.sessionName = options?.session ?? DEFAULT_SESSION;
+        this.waitPolicy = options?.waitPolicy ?? {};
+        this.retryPolicy = options?.retryPolicy ?? {};
+        return captureOnFailure(this, (methodName: string, error: any) => this.captureFailure(methodName, error));
+    }
+
+    // Input for an element named like a redacted field (password, SSN, ...) is registered as a secret of the test, which
+    // masks it in every log, assertion record and artifact the test writes afterwards
+    protected maskInput(inputString: any) {
+        if (!mentionsRedactedField(this.objectDescriptor)) return inputString;
+        logger.registerTestSecret(`${inputString}`);
+        return '******';
+    }
+
+    protected async captureFailure(methodName: string, error: any) {
+        // Saves the failure artifacts of the page and element and records them with the test results.
+        if (!config.ON_FAILURE_SCREENSHOT) return;
+        const element = this.page === undefined || this.page.isClosed() ? undefined : this.page.locator(await this.getLocator(false)).first();
+        const artifacts = await captureFailureArtifacts(`${this.objectDescriptor}_${methodName}`, { page: this.page, element: element, fullCss: this.fullCss, fullXpath: this.fullXpath, error: error });
+        if (testContext.assertsJson !== undefined) {
+            if (testContext.assertsJson.actionFailures === undefined) testContext.assertsJson.actionFailures = [];
+            testContext.assertsJson.actionFailures.push({ action: methodName, object: this.objectDescriptor, error: `${error?.message}`, artifacts: artifacts, step: getCurrentStepPath() });
+            await persistAsserts();
+        }
+    }
+
+    protected getSession() {
+        // Every action resolves its session first, so the log lines that follow are tagged with it
+        if (testContext.logContext !== undefined) testContext.logContext.session = this.sessionName;
+        return sessions.get(this.sessionName);
     }
 
     protected async getPage() {
+        const session = this.getSession();
         if (this.isPopupExist === true) {
-            if (playwright.popup === undefined) {
-                this.page = playwright.popup;
+            if (session.popup === undefined) {
+                this.page = session.popup;
                 const [newPopup] = await Promise.all([
-                    playwright.page.waitForEvent('popup')
+                    session.page.waitForEvent('popup')
                 ]);
-                playwright.popup = newPopup;
+                session.popup = newPopup;
             }
-            this.page = playwright.popup;
+            this.page = session.popup;
         } else {
-            const pages = playwright.context.pages();
+            const pages = session.context.pages();
             this.page = pages[this.pageIndex];
         }
     }
@@ -45,19 +107,47 @@ abstract class UiActions {
         return this;
     }
 
+    async useSession(sessionName: string) {
+        // Binds the object to another named browser session.
+        this.sessionName = sessionName;
+        return this;
+    }
+
+    async setWaitPolicy(waitPolicy: Partial<WaitPolicy>) {
+        // Overrides the wait timeouts for this element only.
+        this.waitPolicy = { ...this.waitPolicy, ...waitPolicy };
+        return this;
+    }
+
+    protected getWaitTimeout(action: WaitAction, timeout?: number) {
+        return resolveWaitTimeout(action, this.waitPolicy, timeout);
+    }
+
+    async setRetryPolicy(retryPolicy: Partial<RetryPolicy>) {
+        // Overrides the retry policy for this element only.
+        this.retryPolicy = { ...this.retryPolicy, ...retryPolicy };
+        return this;
+    }
+
+    protected async retryAction<T>(actionName: string, action: () => Promise<T>, retry?: boolean | Partial<RetryPolicy>) {
+        return await withRetry(`${actionName} on ${this.objectDescriptor}`, action, resolveRetryPolicy(this.retryPolicy, retry));
+    }
+
     async setLocator(locator: string, options?: { description?: string }) {
         this.locator = locator;
+        this.locatorCandidates = [locator];
         if (options?.description.valueOf() !== undefined) this.objectDescriptor = options?.description;
         return this;
     }
     
     async clickToOpenPopup(options?: { force?: boolean }) {
         let _force = options?.force?.valueOf() !== undefined ? options?.force : false;
+        const session = this.getSession();
         const [newPopup] = await Promise.all([
-            playwright.page.waitForEvent('popup'),
-            playwright.page.locator(await this.getLocator()).click({ force: _force })
+            session.page.waitForEvent('popup'),
+            session.page.locator(await this.getLocator()).click({ force: _force })
         ]);
-        playwright.popup = newPopup;
+        session.popup = newPopup;
     }
     
     protected async getElements(options?: { index?: number }) {
@@ -71,9 +161,10 @@ abstract class UiActions {
         });
     }
     
-    protected async getElement() {
+    // The timeout bounds the wait for a fallback locator candidate, e.g. to the remaining time of a polling assertion
+    protected async getElement(options?: { timeout?: number }) {
         return await this.waitTillElementToBeReady().then(async () => {
-            return this.page.locator(await this.getLocator());
+            return this.page.locator(await this.getLocator(true, options?.timeout));
         
         });
     }
@@ -83,17 +174,15 @@ abstract class UiActions {
         this.fullXpath = await (await xPath(element)).toString();
     }
     
-    async clickLink(linkName: string, options?: { linkNameExactMatch?: boolean, force?: boolean }) {
+    async clickLink(linkName: string, options?: { linkNameExactMatch?: boolean, force?: boolean, timeout?: number }) {
         let _linkNameExactMatch = options?.linkNameExactMatch?.valueOf() !== undefined ? options?.linkNameExactMatch : true;
         let _force = options?.force?.valueOf() !== undefiend ? options?.force : false;
+        let _timeout = this.getWaitTimeout('click', options?.timeout);
         await this.WaitTillElementToBeReady().then(async () => {
             if (linkName) {
                 await this.page.getByRole('link', {
                     name: `${linkName}`, exact: _linkNameExactMatch
-                }).waitFor();
-                await this.page.getByRole('link', {
-                    name: `${linkName}`, exact: _linkNameExactMatch
-                }).click({ force: _force });
+                }).click({ force: _force, timeout: _timeout });
                 await this.clearFullCssAndXpath();
                 
                 await logger.info(`Clicked on the link with name - ${linkName} with exact match - ${_linkNameExactMatch} on ${this.objectDescriptor}`);
@@ -103,17 +192,17 @@ abstract class UiActions {
     }
     
     
-    async clickLastLink(options?: { force?: boolean }) {
+    async clickLastLink(options?: { force?: boolean, timeout?: number }) {
         let _force = options?.force?.valueOf() !== undefined ? options?.force : false;
         await logger.info(`Clicked on the last link - ${this.objectDescriptor}`);
-        await (await this.getElement()).last().click({ force: _force });
+        await (await this.getElement()).last().click({ force: _force, timeout: this.getWaitTimeout('click', options?.timeout) });
         await this.clearFullCssAndXpath();
     }
 
-    async clickFirstLink(options?: { force?: boolean }) {
+    async clickFirstLink(options?: { force?: boolean, timeout?: number }) {
         let _force = options?.force?.valueOf() !== undefined ? options?.force : false;
         await logger.info(`Clicked on the first link - ${this.objectDescriptor}`);
-        await (await this.getElement()).first().click({ force: _force });
+        await (await this.getElement()).first().click({ force: _force, timeout: this.getWaitTimeout('click', options?.timeout) });
         await this.clearFullCssAndXpath();
 
 
@@ -167,10 +256,11 @@ abstract class UiActions {
         
     }
     
-    async getPropertyValue(property: string, options?: { index: number }) {
+    async getPropertyValue(property: string, options?: { index?: number, timeout?: number }) {
         let _index = options?.index?.valueOf() !== undefined ? options?.index : 0;
-        await (await this.getElement()).focus();
-        let prpVal = await ((await this.getElement()).nth(_index).getAttribute(property));
+        let _timeout = this.getWaitTimeout('read', options?.timeout);
+        await (await this.getElement()).nth(_index).focus({ timeout: _timeout });
+        let prpVal = await ((await this.getElement()).nth(_index).getAttribute(property, { timeout: _timeout }));
         await this.clearFullCssAndXpath();
         return prpVal === null ? '' : prpVal;
         
@@ -200,30 +290,29 @@ abstract class UiActions {
         return this;
     }
     
-    async containsClick(containsText: string, options?: { force?: boolean, index?: number }) {
+    async containsClick(containsText: string, options?: { force?: boolean, index?: number, timeout?: number, retry?: boolean | Partial<RetryPolicy> }) {
         let _force = options?.force?.valueOf() !== undefined ? options?.force : false;
         let _index = options?.index?.valueOf() !== undefined ? options?.index : 0;
         
-        await (await this.getElement()).filter({ hasText: `${containsText}` }).nth(_index).click({ force: _force });
-        await staticWait(100); // Adding a static wait for 100 milliseconds
+        await this.retryAction('containsClick', async () => {
+            await (await this.getElement()).filter({ hasText: `${containsText}` }).nth(_index).click({ force: _force, timeout: this.getWaitTimeout('click', options?.timeout) });
+        }, options?.retry);
         await logger.info(`Clicked on the ${this.objectDescriptor} containing the text [${containsText}]`);
         await this.clearFullCssAndXPath();
         
     }
     
     async waitTillElementToBeReady() {
-        // Waits until the element is ready.
+        // Waits until the page has loaded, the element itself is awaited by the action using the wait policy.
         await this.getPage();
-        await this.page.waitForTimeout(100);
-        await this.page.waitForLoadState();
-        await this.page.waitForLoadState('domcontentloaded');
-
-    
+        const _timeout = this.getWaitTimeout('pageLoad');
+        await this.page.waitForLoadState('load', { timeout: _timeout });
+        await this.page.waitForLoadState('domcontentloaded', { timeout: _timeout });
     }
     
-    async getText(index = -1) {
+    async getText(index = -1, options?: { timeout?: number }) {
         let _index = index === -1 ? 0 : index;
-        let text = await (await this.getElement()).nth(_index).innerText();
+        let text = await (await this.getElement(options)).nth(_index).innerText({ timeout: this.getWaitTimeout('read', options?.timeout) });
         await this.clearFullCssAndXPath();
         await logger.info(`Getting text from ${this.objectDescriptor}`);
         return text;
@@ -241,18 +330,15 @@ abstract class UiActions {
     }
     
     async isExist() {
-        await this.getPage();
-        await this.page.waitForTimeOut(10);
-        await this.page.waitForLoadState();
-        await this.page.waitForLoadState('domcontentloaded');
+        await this.waitTillElementToBeReady();
         // await this.page.waitForLoadState('networkidle');
-        let flag = await (await this.page.locator(await this.getLocator()).all()).length > 0 ? true : false;
+        let flag = await (await this.page.locator(await this.getLocator(false)).all()).length > 0 ? true : false;
         await this.clearFullCssAndXPath();
         return flag;
     }
     
-    async isEnabled() {
-        let enabled = (await this.getElement()).isEnabled();
+    async isEnabled(options?: { timeout?: number }) {
+        let enabled = (await this.getElement(options)).isEnabled({ timeout: options?.timeout });
         await this.clearFullCssAndXPath();
         return enabled;
     }
@@ -263,8 +349,8 @@ abstract class UiActions {
         return checked;
     }
     
-    async isVisible() {
-        let visible = (await this.getElement()).isVisible();
+    async isVisible(options?: { timeout?: number }) {
+        let visible = (await this.getElement(options)).isVisible();
         await this.clearFullCssAndXPath();
         return visible;
     }
@@ -310,9 +396,40 @@ abstract class UiActions {
         });
     }
     
-    protected async getLocator() {
+    protected async getLocator(waitForCandidates: boolean = true, timeout?: number) {
+        if (this.fullCss === this.locator) await this.healLocator(waitForCandidates, timeout);
         return this.fullCss === this.locator ? this.locator : this.fullCss;
     }
+
+    protected async healLocator(waitForCandidates: boolean = true, timeout?: number) {
+        // Switches to the first locator candidate which matches when the current one matches nothing.
+        if (this.locatorCandidates.length < 2) return;
+        if (this.page === undefined) await this.getPage();
+        if (await this.page.locator(this.locator).count() > 0) return;
+        if (waitForCandidates) {
+            let anyCandidate = this.page.locator(this.locatorCandidates[0]);
+            for (const candidate of this.locatorCandidates.slice(1)) {
+                anyCandidate = anyCandidate.or(this.page.locator(candidate));
+            }
+            try {
+                await anyCandidate.first().waitFor({ state: 'attached', timeout: this.getWaitTimeout('read', timeout) });
+            } catch (error) {
+                // None of the candidates showed up, the action itself reports the primary locator as missing
+                return;
+            }
+        }
+        for (let index = 0; index < this.locatorCandidates.length; index++) {
+            const candidate = this.locatorCandidates[index];
+            if (await this.page.locator(candidate).count() === 0) continue;
+            if (index > 0) {
+                await logger.warn(`Healed locator :: ${this.objectDescriptor} - [${this.locatorCandidates[0]}] not found, used candidate ${index} [${candidate}]`);
+                healingReport.record(this.objectDescriptor, this.locatorCandidates[0], candidate, index, this.page.url());
+            }
+            this.locator = candidate;
+            this.fullCss = candidate;
+            return;
+        }
+    }
     
     async getLocatorFullCss() {
         return this.fullCss;
@@ -351,39 +468,40 @@ abstract class UiActions {
         let arr = [];
         let count = await (await this.getElement()).count();
         for (let indx = 0; indx < count; indx++) {
-            await staticWait(100);
-            let iText = (await (await this.getElement()).nth(indx).innerText()).toString();
+            let iText = (await (await this.getElement()).nth(indx).innerText({ timeout: this.getWaitTimeout('read') })).toString();
             arr.push(iText.trim());
         }
         await this.clearFullCssAndXPath();
         return arr;
     }
     
-    async clear(option?: { force?: boolean }) {
+    async clear(option?: { force?: boolean, timeout?: number }) {
         // Clears the text of the element.
         let _force = option?.force === undefined ? false : true;
         let ele = await (await this.getElement());
         await this.setCssAndXPath(ele);
-        await ele.clear({ force: _force });
+        await ele.clear({ force: _force, timeout: this.getWaitTimeout('fill', option?.timeout) });
         return this;
     }
     
-    async click(options?: { objIndex?: number, force?: boolean }) {
+    async click(options?: { objIndex?: number, force?: boolean, timeout?: number, retry?: boolean | Partial<RetryPolicy> }) {
         // Clicks on the element.
         let _objIndex = options?.objIndex === undefined ? 0 : options?.objIndex;
         let _force = options?.force ?? false;
-        const obj = await (await this.getElement()).nth(_objIndex);
-        await obj.click({ force: _force });
+        await this.retryAction('click', async () => {
+            const obj = await (await this.getElement()).nth(_objIndex);
+            await obj.click({ force: _force, timeout: this.getWaitTimeout('click', options?.timeout) });
+        }, options?.retry);
         await logger.info(`Clicked on the ${this.objectDescriptor} [${_objIndex}]`);
         await this.clearFullCssAndXPath();
     }
 
-    async dblClick(options?: { objIndex?: number, force?: boolean }) {
+    async dblClick(options?: { objIndex?: number, force?: boolean, timeout?: number }) {
         // Performs a double-click action on the element.
         let _objIndex = options?.objIndex === undefined ? 0 : options?.objIndex;
         let _force = options?.force ?? false;
         const obj = await (await this.getElement()).nth(_objIndex);
-        await obj.dblclick({ force: _force });
+        await obj.dblclick({ force: _force, timeout: this.getWaitTimeout('click', options?.timeout) });
         await logger.info(`Double-clicked on the ${this.objectDescriptor} [${_objIndex}]`);
         await this.clearFullCssAndXPath();
     }
@@ -410,8 +528,10 @@ abstract class UiActions {
     }
     
     export class UiElement extends UiActions {
-        constructor(locator: string, options?: { description?: string, isPopup?: boolean, pageIndex?: number }) {
-            super(locator, { description: options?.description, isPopup: options?.isPopup, pageIndex: options?.pageIndex });
+        constructor(locator: string | string[], options?: { description?: string, isPopup?: boolean, pageIndex?: number, session?: string, waitPolicy?: Partial<WaitPolicy>, retryPolicy?: Partial<RetryPolicy> } & LocatorHints) {
+            const candidates = buildLocatorCandidates(locator, options);
+            super(candidates[0], { description: options?.description, isPopup: options?.isPopup, pageIndex: options?.pageIndex, session: options?.session, waitPolicy: options?.waitPolicy, retryPolicy: options?.retryPolicy });
+            this.locatorCandidates = candidates;
         }
     
         async getAllObjects(options?: { hasText?: string }): Promise<UiElement[]> {
@@ -430,7 +550,7 @@ abstract class UiActions {
     
             const uiElements: UiElement[] = await Promise.all(this.tempLocators.map(async (loc: any, index: number) => {
                 const cssLocator = await (await cssPath(loc)).toString();
-                return new UiElement(cssLocator, { description: `${this.objectDescriptor} [${index}]` });
+                return new UiElement(cssLocator, { description: `${this.objectDescriptor} [${index}]`, session: this.sessionName, waitPolicy: this.waitPolicy, retryPolicy: this.retryPolicy });
             }));
             return uiElements;
         }
@@ -445,7 +565,7 @@ abstract class UiActions {
         }
     }
 
-    async check(options?: { objIndex?: number, force?: boolean}) {
+    async check(options?: { objIndex?: number, force?: boolean, timeout?: number }) {
         // Checks the checkbox element.
         let _objIndex = options?.objIndex?.valueOf() !== undefined ? -1 : options?.objIndex;
         let _force = options?.force?.valueOf() !== undefined ? options?.force : false;
@@ -453,7 +573,7 @@ abstract class UiActions {
             const obj = _objIndex > -1 ? await (await this.getElement()).nth(_objIndex) : await (await this.getElement()).first();
             let flag =  await obj.getAttribute('disabled');
             if (!flag) {
-                await obj.check({ force: _force });
+                await obj.check({ force: _force, timeout: this.getWaitTimeout('click', options?.timeout) });
                 await logger.info(`${this.objectDescriptor} - checked the checkbox`);
             } else {
                 await logger.info(`${this.objectDescriptor} - unable to check the checkbox, it's disabled`);
@@ -462,14 +582,14 @@ abstract class UiActions {
         });
     }
     
-    async uncheck(options?: { objIndex?: number, force?: boolean}) {
+    async uncheck(options?: { objIndex?: number, force?: boolean, timeout?: number }) {
         // Unchecks the checkbox element.
         let _objIndex = options?.objIndex?.valueOf() !== undefined ? -1 : options?.objIndex;
         let _force = options?.force?.valueOf() !== undefined ? options?.force : false;
         const obj = _objIndex > -1 ? await (await this.getElement()).nth(_objIndex) : await (await this.getElement()).first();
         let flag =  await obj.getAttribute('disabled');
         if (!flag) {
-            await obj.uncheck({ force: _force });
+            await obj.uncheck({ force: _force, timeout: this.getWaitTimeout('click', options?.timeout) });
             await logger.info(`${this.objectDescriptor} - unchecked the checkbox`);
         } else {
             await logger.info(`${this.objectDescriptor} - unable to uncheck the checkbox, it's disabled`);
@@ -477,57 +597,175 @@ abstract class UiActions {
         await this.clearFullCssAndXPath();
     }
     
-    async setValue(inputString: any, options?: { keyPress?: string, force?: boolean }) {
+    async setValue(inputString: any, options?: { keyPress?: string, force?: boolean, timeout?: number, retry?: boolean | Partial<RetryPolicy> }) {
         // Sets the value of the element.
         let _force = options?.force?.valueOf() !== undefined ? options?.force : false;
-        await (await this.getElement()).clear();
-        await (await this.getElement()).fill(inputString.toString(), { force: _force });
-        if (options?.keyPress?.valueOf() !== undefined) {
-            await (await this.getElement()).press(options?.keyPress);
-        }
-        await logger.info(`${this.objectDescriptor} - set the value: ${this.objectDescriptor.toLowerCase().includes('password') ? '******' : inputString}`);
+        let _timeout = this.getWaitTimeout('fill', options?.timeout);
+        await this.retryAction('setValue', async () => {
+            await (await this.getElement()).clear({ timeout: _timeout });
+            await (await this.getElement()).fill(inputString.toString(), { force: _force, timeout: _timeout });
+            if (options?.keyPress?.valueOf() !== undefined) {
+                await (await this.getElement()).press(options?.keyPress);
+            }
+        }, options?.retry);
+        await logger.info(`${this.objectDescriptor} - set the value: ${this.maskInput(inputString)}`);
         await this.clearFullCssAndXpath();
     }
     
-    async type(inputString: any, options?: { delay?: number, keyPress?: string }) {
+    async type(inputString: any, options?: { delay?: number, keyPress?: string, timeout?: number }) {
         // Types the given input string into the element.
         let _delay = options?.delay?.valueOf() !== undefined ? 0 : options?.delay;
-        await (await this.getElement()).type(inputString.toString(), { delay: _delay });
+        await (await this.getElement()).type(inputString.toString(), { delay: _delay, timeout: this.getWaitTimeout('fill', options?.timeout) });
         if (options?.keyPress?.valueOf() !== undefined) {
             await (await this.getElement()).press(options?.keyPress);
         }
-        await logger.info(`${this.objectDescriptor} - typed the value: ${this.objectDescriptor.toLowerCase().includes('password') ? '******' : inputString}`);
+        await logger.info(`${this.objectDescriptor} - typed the value: ${this.maskInput(inputString)}`);
         await this.clearFullCssAndXPath();
     }
     
-    async pressSequentially(inputString: any, options?: { delay?: number, keyPress?: string }) {
+    async pressSequentially(inputString: any, options?: { delay?: number, keyPress?: string, timeout?: number }) {
         // Presses the keys in sequence into the element.
         let _delay = options?.delay?.valueOf() !== undefined ? 0 : options?.delay;
-        await (await this.getElement()).pressSequentially(inputString, { delay: _delay });
+        await (await this.getElement()).pressSequentially(inputString, { delay: _delay, timeout: this.getWaitTimeout('fill', options?.timeout) });
         if (options?.keyPress?.valueOf() !== undefined) {
             await (await this.getElement()).press(options?.keyPress);
         }
-        await logger.info(`${this.objectDescriptor} - pressed sequentially: ${this.objectDescriptor.toLowerCase().includes('password') ? '******' : inputString}`);
+        await logger.info(`${this.objectDescriptor} - pressed sequentially: ${this.maskInput(inputString)}`);
         await this.clearFullCssAndXPath();
     }
     
-    async selectListOptionsByText(option: string) {
+    async selectListOptionsByText(option: string, options?: { timeout?: number }) {
         // Selects an option from the dropdown list by text.
-        await (await this.getElement()).selectOption(option);
+        await (await this.getElement()).selectOption(option, { timeout: this.getWaitTimeout('fill', options?.timeout) });
         await logger.info(`${this.objectDescriptor} - selected the option: ${option}`);
         await this.clearFullCssAndXPath();
     }
     
-    async selectListOptionByIndex(indexOf: number) {
+    async selectListOptionByIndex(indexOf: number, options?: { timeout?: number }) {
         // Selects an option from the dropdown list by index.
-        await (await this.getElement()).selectOption({ index: indexOf });
+        await (await this.getElement()).selectOption({ index: indexOf }, { timeout: this.getWaitTimeout('fill', options?.timeout) });
         await logger.info(`${this.objectDescriptor} - selected the option index: ${indexOf}`);
         await this.clearFullCssAndXPath();
     }
 
     export class UiTable extends UiActions {
-        constructor(locator: string, options?: { description?: string, isPopup?: boolean, pageIndex?: number }) {
-            super(locator, { description: options?.description, isPopup: options?.isPopup, pageIndex: options?.pageIndex });
+        protected pager: PagerConfig;
+
+        constructor(locator: string, options?: { description?: string, isPopup?: boolean, pageIndex?: number, session?: string, waitPolicy?: Partial<WaitPolicy>, retryPolicy?: Partial<RetryPolicy>, pager?: PagerConfig }) {
+            super(locator, { description: options?.description, isPopup: options?.isPopup, pageIndex: options?.pageIndex, session: options?.session, waitPolicy: options?.waitPolicy, retryPolicy: options?.retryPolicy });
+            this.pager = options?.pager;
+        }
+
+        async setPager(pager: PagerConfig) {
+            // Sets how the table moves to its next page or scroll position.
+            this.pager = pager;
+            return this;
+        }
+
+        async forEachPage(callback: (pageIndex: number) => Promise<boolean | void>, options?: { waitForRows?: boolean }) {
+            // Calls back once per page or scroll position of the table from the first one on, returning false from the callback stops on that page.
+            // Lookups pass waitForRows false to read a table without rows as it is instead of waiting for rows to load.
+            const waitForRows = options?.waitForRows ?? true;
+            await this.waitTillElementToBeReady();
+            if (this.pager === undefined) {
+                if (waitForRows) await this.waitForRowsToLoad();
+                await callback(0);
+                return 1;
+            }
+            await preparePager(this.page, (await this.getElement()).first().locator('tr'), this.pager);
+            let pageIndex = 0;
+            while (true) {
+                if (waitForRows) await this.waitForRowsToLoad();
+                if (await callback(pageIndex) === false) break;
+                if (pageIndex + 1 >= getMaxPages(this.pager)) {
+                    await logger.info(`${this.objectDescriptor} - stopped paging after maxPages (${getMaxPages(this.pager)})`);
+                    break;
+                }
+                const rows = (await this.getElement()).first().locator('tr');
+                if (!(await moveToNextPage(this.page, rows, this.pager))) break;
+                pageIndex++;
+            }
+            await this.clearFullCssAndXPath();
+            return pageIndex + 1;
+        }
+
+        async findMatchedRows(rowValues: string[], options?: { locator?: string, exactMatch?: boolean, firstOnly?: boolean }) {
+            // Searches every page for rows containing all the values and returns the page and row index of each match.
+            let _locator = options?.locator ?? 'tr';
+            let _exactMatch = options?.exactMatch ?? false;
+            const values = rowValues.map((value) => value.trim().toLowerCase());
+            const matches: { pageIndex: number, rowIndex: number }[] = [];
+            const isNewRow = createRowDeduplicator(this.pager);
+            await this.forEachPage(async (pageIndex: number) => {
+                const rowsLocator = (await this.getElement()).locator(_locator);
+                const rows = await rowsLocator.all();
+                const keys = await getRowKeys(rowsLocator, this.pager);
+                const rowCells: string[][] = [];
+                for (const row of rows) {
+                    rowCells.push((await row.locator('td').allInnerTexts()).map((cell) => cell.trim().toLowerCase()));
+                }
+                const dataRows = rowCells.map((cells, rowIndex) => rowIndex).filter((rowIndex) => rowCells[rowIndex].length > 0);
+                // Scroll positions of a virtual grid overlap, the same row is only reported once
+                const isNew = isNewRow(dataRows.map((rowIndex) => keys[rowIndex]), dataRows.map((rowIndex) => rowCells[rowIndex].join('\t')));
+                for (let dataIndex = 0; dataIndex < dataRows.length; dataIndex++) {
+                    if (!isNew[dataIndex]) continue;
+                    const rowIndex = dataRows[dataIndex];
+                    const cells = rowCells[rowIndex];
+                    const found = values.every((value) => cells.some((cell) => _exactMatch ? cell === value : cell.includes(value)));
+                    if (found) {
+                        matches.push({ pageIndex: pageIndex, rowIndex: rowIndex });
+                        if (options?.firstOnly) return false;
+                    }
+                }
+            });
+            await logger.info(`${this.objectDescriptor} - found ${matches.length} row(s) matching [${rowValues}] across pages`);
+            return matches;
+        }
+
+        async findRowAcrossPages<T extends TableRecord = TableRecord>(criteria: RowCriteria, options?: { exactMatch?: boolean, headerRowCount?: number }) {
+            // Pages through the table until a row matches the column values, the table is left on that page.
+            let result: { pageIndex: number, rowIndex: number, row: T } = undefined;
+            await this.forEachPage(async (pageIndex: number) => {
+                const model = new TableModel(await readTableGrid(await this.getElement(), options));
+                const match = model.findRows<T>(criteria, options)[0];
+                if (match !== undefined) {
+                    result = { pageIndex: pageIndex, rowIndex: match.index, row: match.row };
+                    return false;
+                }
+            });
+            return result;
+        }
+
+        async exportAllRows<T extends TableRecord = TableRecord>(options?: { headerRowCount?: number }) {
+            // Retrieves the rows of every page as records keyed by column name.
+            const records: T[] = [];
+            const isNewRow = createRowDeduplicator(this.pager);
+            await this.forEachPage(async () => {
+                const grid = await readTableGrid(await this.getElement(), { ...options, rowKeyAttributes: getRowKeyAttributes(this.pager) });
+                const model = new TableModel(grid);
+                const isNew = isNewRow(grid.bodyRowKeys, model.rows.map((row) => row.join('\t')));
+                model.getRows<T>().forEach((record, rowIndex) => {
+                    if (isNew[rowIndex]) records.push(record);
+                });
+            });
+            await logger.info(`${this.objectDescriptor} - exported ${records.length} rows across pages`);
+            return records;
+        }
+
+        async getAllPagesColumnData(column: number | string, options?: { headerRowCount?: number }) {
+            // Retrieves the data of a column, by index or header name, from all rows of every page.
+            const values: string[] = [];
+            const isNewRow = createRowDeduplicator(this.pager);
+            await this.forEachPage(async () => {
+                const grid = await readTableGrid(await this.getElement(), { ...options, rowKeyAttributes: getRowKeyAttributes(this.pager) });
+                const model = new TableModel(grid);
+                const columnName = typeof column === 'number' ? model.getHeaders()[column] : column;
+                const isNew = isNewRow(grid.bodyRowKeys, model.rows.map((row) => row.join('\t')));
+                model.rows.forEach((row, rowIndex) => {
+                    if (isNew[rowIndex]) values.push(model.getCell(rowIndex, columnName));
+                });
+            });
+            return values;
         }
     
         async getColumnHasText(cellValue: string) {
@@ -537,18 +775,18 @@ abstract class UiActions {
             return this;
         }
     
-        async waitForRowsToLoad(options?: { locator?: string }) {
+        async waitForRowsToLoad(options?: { locator?: string, timeout?: number }) {
             // Waits for the rows of the table to load.
             let _locator = options?.locator ?? 'tr';
-            await (await this.getElement()).locator(_locator).nth(0).waitFor({ state: "attached", timeout: 60000 });
+            await (await this.getElement()).locator(_locator).nth(0).waitFor({ state: "attached", timeout: this.getWaitTimeout('tableLoad', options?.timeout) });
             return this;
         }
     
-        async getCellData(row: number, col: number, options?: { locator?: string }) {
+        async getCellData(row: number, col: number, options?: { locator?: string, timeout?: number }) {
             // Retrieves the data from a specific cell in the table.
             let _locator = options?.locator ?? 'tr';
             await logger.info(`Getting cell data from ${this.objectDescriptor} - Row, Column [${row},${col}]`);
-            let val = await (await this.getElement()).locator(_locator).nth(row).locator('td').nth(col).innerText();
+            let val = await (await this.getElement(options)).locator(_locator).nth(row).locator('td').nth(col).innerText({ timeout: this.getWaitTimeout('read', options?.timeout) });
             await this.clearFullCssAndXPath();
             await logger.info(`Row, Column [${row}, ${col}] = ${val}`);
             return val.toString();
@@ -624,10 +862,10 @@ abstract class UiActions {
             });
         }
     
-        async getRowsLength(options?: { locator?: string }) {
+        async getRowsLength(options?: { locator?: string, timeout?: number }) {
             // Retrieves the number of rows in the table.
             let _locator = options?.locator ?? 'tr';
-            let length = await this.isExist() ? Number(await (await this.getElement()).locator(_locator).count()) : 0;
+            let length = await this.isExist() ? Number(await (await this.getElement(options)).locator(_locator).count()) : 0;
             await this.clearFullCssAndXPath();
             return length;
         }
@@ -638,6 +876,52 @@ abstract class UiActions {
             await this.clearFullCssAndXPath();
             return innerTexts;
         }
+
+        async getTableModel(options?: { headerRowCount?: number }) {
+            // Reads the headers and rows once into a model addressed by column name.
+            await this.waitForRowsToLoad();
+            const model = new TableModel(await readTableGrid(await this.getElement(), options));
+            await this.clearFullCssAndXPath();
+            await logger.info(`Read ${model.getRowCount()} rows with columns [${model.getHeaders().join(', ')}] from ${this.objectDescriptor}`);
+            return model;
+        }
+
+        async getRows<T extends TableRecord = TableRecord>(options?: { headerRowCount?: number }) {
+            // Retrieves all rows as records keyed by column name.
+            return (await this.getTableModel(options)).getRows<T>();
+        }
+
+        async findRow<T extends TableRecord = TableRecord>(criteria: RowCriteria, options?: { exactMatch?: boolean, headerRowCount?: number }) {
+            // Retrieves the first row whose cells match all the given column values.
+            return (await this.getTableModel(options)).findRow<T>(criteria, options);
+        }
+
+        async getCellDataByHeader(row: number, columnName: string, options?: { headerRowCount?: number }) {
+            // Retrieves the data from the cell of the given row under the named column.
+            return (await this.getTableModel(options)).getCell(row, columnName);
+        }
+
+        async getColumnDataByHeader(columnName: string, options?: { headerRowCount?: number }) {
+            // Retrieves the data of the named column from all rows.
+            return (await this.getTableModel(options)).getColumn(columnName);
+        }
+
+        async getSnapshot(options?: { allPages?: boolean, headerRowCount?: number }): Promise<TableSnapshot> {
+            // Retrieves the headers and rows of the current page, or of every page when allPages is set, for comparison or export.
+            if (options?.allPages) {
+                return snapshotFromRecords(await this.exportAllRows(options));
+            }
+            const model = await this.getTableModel(options);
+            return { headers: model.getHeaders(), rows: model.rows.map((row) => [...row]) };
+        }
+
+        async exportSnapshot(filePath: string, options?: { allPages?: boolean, headerRowCount?: number, sheetName?: string }) {
+            // Writes the table data to a .csv, .json or .xlsx file.
+            const snapshot = await this.getSnapshot(options);
+            await exportSnapshot(snapshot, filePath, options);
+            await logger.info(`${this.objectDescriptor} - exported ${snapshot.rows.length} rows to ${filePath}`);
+            return filePath;
+        }
     }
 
     async getMetaTableRowsLength(options?: { locator?: string }) {
@@ -651,35 +935,46 @@ abstract class UiActions {
         });
     }
     
-    async getMatchedRowIndex(rowValues: string[], options?: { locator?: string, exactMatch?: boolean }) {
-        let _locator = options?.locator?.valueOf() === undefined ? 'tr' : options?.locator;
-        let _exactMatch = options?.exactMatch?.valueOf() === undefined ? false : options?.exactMatch;
-        let arr: string[][] = [];
+    async getMatchedRowIndex(rowValues: string[], options?: { locator?: string, exactMatch?: boolean, timeout?: number }) {
+        // With a pager the pages are searched in turn, the table is left on the page of the match and the index is the one on that page.
         rowValues.forEach((ele, i) => {
             rowValues[i] = ele.trim().includes(`'`) ? ele.trim().split(`'`)[1] : ele.trim();
         });
         return await this.waitTillElementToBeReady().then(async () => {
-            const rows = await (await this.getElement()).locator(_locator).count();
-            for (let index = 0; index < rows; index++) {
-                const tableData = await (await this.getElement()).locator(_locator).nth(index).allInnerTexts();
-                let rowData = tableData.toString().split('\t').join('').split('\n');
-                if (rowData.length > 1) {
-                    arr.push(rowData);
-                }
+            if (this.pager === undefined) return await this.getPageMatchedRowIndex(rowValues, options);
+            let rowIndex = -1;
+            await this.forEachPage(async () => {
+                rowIndex = await this.getPageMatchedRowIndex(rowValues, options);
+                return rowIndex < 0;
+            }, { waitForRows: false });
+            return rowIndex;
+        });
+    }
+
+    protected async getPageMatchedRowIndex(rowValues: string[], options?: { locator?: string, exactMatch?: boolean, timeout?: number }) {
+        let _locator = options?.locator?.valueOf() === undefined ? 'tr' : options?.locator;
+        let _exactMatch = options?.exactMatch?.valueOf() === undefined ? false : options?.exactMatch;
+        let arr: string[][] = [];
+        const rows = await (await this.getElement(options)).locator(_locator).count();
+        for (let index = 0; index < rows; index++) {
+            const tableData = await (await this.getElement(options)).locator(_locator).nth(index).allInnerTexts();
+            let rowData = tableData.toString().split('\t').join('').split('\n');
+            if (rowData.length > 1) {
+                arr.push(rowData);
             }
-            let rowIndex = arr.findIndex((rowText) => {
-                for (const colData of rowValues) {
-                    if (_exactMatch) {
-                        if (rowText.findIndex((ele: any) => ele.trim().toLowerCase() === colData.toLowerCase().trim()) < 0) return false;
-                    } else {
-                        if (rowText.findIndex((ele: any) => !ele.trim().toLowerCase().includes(colData.toLowerCase().trim())) >= 0) return false;
-                    }
+        }
+        let rowIndex = arr.findIndex((rowText) => {
+            for (const colData of rowValues) {
+                if (_exactMatch) {
+                    if (rowText.findIndex((ele: any) => ele.trim().toLowerCase() === colData.toLowerCase().trim()) < 0) return false;
+                } else {
+                    if (rowText.findIndex((ele: any) => !ele.trim().toLowerCase().includes(colData.toLowerCase().trim())) >= 0) return false;
                 }
-                return true;
-            });
-            await this.clearFullCssAndXPath();
-            return rowIndex >= 0 ? rowIndex : -1;
+            }
+            return true;
         });
+        await this.clearFullCssAndXPath();
+        return rowIndex >= 0 ? rowIndex : -1;
     }
 
     async getMatchedRowIndices(rowValues: string[], options?: {locator?: string, exactMatch?: boolean}){
@@ -723,7 +1018,7 @@ abstract class UiActions {
         rowValues.forEach((ele,  i) => {
             rowValues[i] = ele.trim();
         });
-        await (await this.getElement()).locator(_locator).nth(0).waitFor();
+        await (await this.getElement()).locator(_locator).nth(0).waitFor({ timeout: this.getWaitTimeout('tableLoad') });
         const rows = await (await this.getElement()).locator(_locator).count();
         for (let index = 0; index < rows; index++) {
             const table_data = await ((await this.getElement()).locator(_locator).nth(index).allInnerTexts());
@@ -766,27 +1061,42 @@ abstract class UiActions {
         let arr = new Array();
         let foundIndices = new Array();
     
-        // Retrieve rows from the table
-        let rows = await (await this.getElement()).locator(_locator).all();
-    
-        // Process each row
-        for (let row of rows) {
-            let arrTds = new Array();
-    
-            // Retrieve cells from the row
-            let cols = await row.locator('td').all();
+        // Read the rows of the current page, skipping those a virtual grid rendered at an earlier scroll position
+        const isNewRow = createRowDeduplicator(this.pager);
+        const readRows = async () => {
+            // Retrieve rows from the table
+            let rowsLocator = (await this.getElement()).locator(_locator);
+            let rows = await rowsLocator.all();
+            let keys = await getRowKeys(rowsLocator, this.pager);
+            let pageRows = new Array();
+            let pageKeys = new Array();
+    
+            // Process each row
+            for (let index = 0; index < rows.length; index++) {
+                let arrTds = new Array();
+    
+                // Retrieve cells from the row
+                let cols = await rows[index].locator('td').all();
+    
+                // Process each cell
+                for (let col of cols) {
+                    // Get text from cell and trim
+                    arrTds.push((await col.innerText()).toString().trim());
+                }
     
-            // Process each cell
-            for (let col of cols) {
-                // Get text from cell and trim
-                arrTds.push((await col.innerText()).toString().trim());
+                // Check if the row has enough columns
+                if (arrTds.length > _minColumnSize) {
+                    pageRows.push(arrTds);
+                    pageKeys.push(keys[index]);
+                }
             }
+            const isNew = isNewRow(pageKeys, pageRows.map((row: string[]) => row.join('\t')));
+            arr.push(...pageRows.filter((row: string[], index: number) => isNew[index]));
+        };
     
-            // Check if the row has enough columns
-            if (arrTds.length > _minColumnSize) {
-                arr.push(arrTds);
-            }
-        }
+        // With a pager the rows of every page are searched, the indices count the rows from the first page on
+        if (this.pager === undefined) await readRows();
+        else await this.forEachPage(readRows, { waitForRows: false });
     
         // Search for rows matching the criteria
         for (let indx = 0; indx < arr.length; indx++) {
@@ -813,7 +1123,7 @@ abstract class UiActions {
         return foundIndices;
     }
 
-    async clickMetaTableRowLink(rowIndex: number, options?: { linkName?: string, lnkIndex?: number, locator?: string }) {
+    async clickMetaTableRowLink(rowIndex: number, options?: { linkName?: string, lnkIndex?: number, locator?: string, timeout?: number }) {
         // Extract options or set defaults
         let _locator = options?.locator || 'tr';
         let _linkName = options?.linkName || false;
@@ -826,15 +1136,21 @@ abstract class UiActions {
         const link = _linkName !== '' ? await row.filter({ hasText: `${_linkName}` }) : (_lnkIndex > -1 ? await row.locator('a').nth(_lnkIndex - 1) : await row.locator('a').first());
     
         // Click the link
-        await link.click();
+        await link.click({ timeout: this.getWaitTimeout('click', options?.timeout) });
     
         // Clear CSS and XPath after action
         await this.clearFullCssAndXPath();
     }
     
     async isColumnValueExist(colValue: string) {
-        // Check if column value exists
-        let exist = await (await this.getElement()).locator('td').filter({ hasText: `${colValue}` }).count() > 0;
+        // Check if column value exists, on any page when the table has a pager
+        let exist = false;
+        const checkPage = async () => {
+            exist = await (await this.getElement()).locator('td').filter({ hasText: `${colValue}` }).count() > 0;
+            return !exist;
+        };
+        if (this.pager === undefined) await checkPage();
+        else await this.forEachPage(checkPage, { waitForRows: false });
     
         // Clear CSS and XPath after action
         await this.clearFullCssAndXPath();
@@ -842,22 +1158,24 @@ abstract class UiActions {
         return exist;
     }
     
-    async clickRowLink(rowIndex: number, options?: { linkIndex?: number, force?: boolean, locator?: string }) {
+    async clickRowLink(rowIndex: number, options?: { linkIndex?: number, force?: boolean, locator?: string, timeout?: number, retry?: boolean | Partial<RetryPolicy> }) {
         // Extract options or set defaults
         let _lIndex = options?.linkIndex ?? 0;
         let _force = options?.force ?? false;
     
-        // Get the row element
-        const row = await (await this.getElement()).nth(rowIndex);
+        await this.retryAction('clickRowLink', async () => {
+            // Get the row element, again on every attempt as the table may have re-rendered
+            const row = await (await this.getElement()).nth(rowIndex);
     
-        // Click the link in the row based on provided options
-        await row.locator('a').nth(_lIndex).click({ force: _force });
+            // Click the link in the row based on provided options
+            await row.locator('a').nth(_lIndex).click({ force: _force, timeout: this.getWaitTimeout('click', options?.timeout) });
+        }, options?.retry);
     
         // Clear CSS and XPath after action
         await this.clearFullCssAndXPath();
     }
 
-    async metaTableClickRowLink(rowIndex: number, options?: { locator?: string, lnkIndex?: number }) {
+    async metaTableClickRowLink(rowIndex: number, options?: { locator?: string, lnkIndex?: number, timeout?: number }) {
         // Extract options or set defaults
         let _locator = options?.locator || 'tr';
         let _lnkIndex = options?.lnkIndex ?? -1;
@@ -866,128 +1184,142 @@ abstract class UiActions {
         const row = await (await this.getElement()).nth(rowIndex).locator(_locator).nth(0);
     
         // Click the link within the row based on provided options
-        await row.getByRole('link').nth(_lnkIndex).click();
+        await row.getByRole('link').nth(_lnkIndex).click({ timeout: this.getWaitTimeout('click', options?.timeout) });
     
         // Clear CSS and XPath after action
         await this.clearFullCssAndXPath();
     }
 
-    export const playwright = {
-        page: undefined as page,
-        apiContext: undefined as APIRequestContext,
-        popup: undefined as page,
-        newPage: undefined as page,
-        context: undefined as BrowserContext,
-        browser: undefined as Browser
-    };
+    export const playwright = sessions.get(DEFAULT_SESSION);
     
-    export const invokeBrowser = async (browserType: string, options?: { headless?: boolean, channel?: string }) => {
-        console.log('in invoke browser : ' + browserType);
-        let _headless = options?.headless ?? true;
-        let _channel = options?.channel ?? '';
+    export const invokeBrowser = async (browserType?: string, options?: { headless?: boolean, channel?: string, profile?: string }) => {
+        const profile = getLaunchProfile(options?.profile);
+        let _browserType = browserType || profile.browser;
+        console.log(`in invoke browser : ${_browserType} with launch profile : ${getLaunchProfileName(options?.profile)}`);
+        const launchOptions = getLaunchOptions(profile, { headless: options?.headless, channel: options?.channel });
         
-        switch (browserType) {
+        switch (_browserType) {
             case "chrome":
-                return await chromium.launch({ headless: _headless });
+                return await chromium.launch(launchOptions);
             case "firefox":
-                return await firefox.launch({ headless: _headless });
+                return await firefox.launch(launchOptions);
             case "webkit":
-                return await webkit.launch({ headless: _headless });
+                return await webkit.launch(launchOptions);
             case "msedge":
                 return await chromium.launch({
-                    channel: 'msedge',
-                    headless: _headless
+                    ...launchOptions,
+                    channel: launchOptions.channel ?? 'msedge'
                 });
             default:
-                return await chromium.launch({ headless: _headless });
+                return await chromium.launch(launchOptions);
         }
     };
-    
-    export async function waitForPageLoad() {
-        await playwright.page.waitForLoadState('domcontentloaded');
-        await playwright.page.waitForLoadState('networkidle');
-        await playwright.page.waitForLoadState();
+
+    export async function newContext(browser: Browser, options?: { profile?: string }) {
+        // Creates a browser context with the viewport, locale, device and storage state of the launch profile.
+        return await browser.newContext(getContextOptions(getLaunchProfile(options?.profile)));
+    }
+
+    export async function newSession(sessionName: string, browserType?: string, options?: { headless?: boolean, channel?: string, profile?: string }) {
+        // Launches a browser with its own context and page and registers it under the given session name.
+        const browser = await invokeBrowser(browserType, options);
+        const context = await newContext(browser, { profile: options?.profile });
+        const page = await context.newPage();
+        await logger.info(`Started browser session [${sessionName}] with launch profile ${getLaunchProfileName(options?.profile)}`);
+        return sessions.register(sessionName, { browser: browser, context: context, page: page });
+    }
+    
+    export async function waitForPageLoad(options?: { session?: string }) {
+        const page = sessions.get(options?.session).page;
+        const _timeout = getWaitPolicy().pageLoad;
+        await page.waitForLoadState('domcontentloaded', { timeout: _timeout });
+        await page.waitForLoadState('networkidle', { timeout: _timeout });
+        await page.waitForLoadState('load', { timeout: _timeout });
         return true;
     }
     
-    export async function waitForUrl(url: string) {
+    export async function waitForUrl(url: string, options?: { session?: string }) {
         await logger.info('waiting for the url : ' + url);
-        await playwright.page.waitForURL(url, { timeout: 120000, waitUntil: 'domcontentloaded' });
+        await sessions.get(options?.session).page.waitForURL(url, { timeout: config.URL_WAIT_TIMEOUT, waitUntil: 'domcontentloaded' });
     }
     
-    export async function staticWait(timeOut: number, isPage: boolean = true) {
+    export async function staticWait(timeOut: number, isPage: boolean = true, sessionName: string = DEFAULT_SESSION) {
         console.log(`waiting for seconds ${timeOut}`);
+        const session = sessions.get(sessionName);
         if (isPage) {
             console.log(`waiting for the page : ${timeOut} milliseconds`);
-            await playwright.page.waitForTimeout(timeOut);
+            await session.page.waitForTimeout(timeOut);
         } else {
             console.log(`waiting for the popup : ${timeOut} milliseconds`);
-            await playwright.popup.waitForTimeout(timeOut);
+            await session.popup.waitForTimeout(timeOut);
         }
     }
     
-    export async function goToUrl(url: string) {
-        await playwright.page.goto(url, { timeout: 500000, waitUntil: 'networkidle' });
+    export async function goToUrl(url: string, options?: { session?: string }) {
+        await sessions.get(options?.session).page.goto(url, { timeout: config.NAVIGATION_TIMEOUT, waitUntil: 'networkidle' });
         await logger.info('Launching URL : ' + url);
     }
     
-    export async function closeplaywright() {
-        if (playwright.popup !== undefined) {
-            await playwright.popup.close();
-        }
-        if (playwright.page) {
-            await playwright.page.close();
+    export async function closeplaywright(sessionName: string = DEFAULT_SESSION) {
+        // Closes the page, then the popup, context and browser of the session, and drops the session from the registry
+        const session = sessions.get(sessionName);
+        if (session.page && !session.page.isClosed()) {
+            await session.page.close();
         }
+        await sessions.close(sessionName);
     }
     
-    export async function getUrl(pageIndex: number = 0) {
-        const pages = playwright.context.page();
+    export async function getUrl(pageIndex: number = 0, options?: { session?: string }) {
+        const pages = sessions.get(options?.session).context.pages();
         const page = pages[pageIndex];
-        await waitForPageLoad();
+        await waitForPageLoad({ session: options?.session });
         return page.url().toString();
     }
     
-    export async function pause(options?: { isPage?: boolean }) {
+    export async function pause(options?: { isPage?: boolean, session?: string }) {
         let _flag = options?.isPage ?? true;
+        const session = sessions.get(options?.session);
         if (_flag) {
-            await playwright.page.pause();
+            await session.page.pause();
         } else {
-            await playwright.popup.pause();
+            await session.popup.pause();
         }
     }
     
-    export async function refreshPage(options?: { isPage?: boolean }) {
+    export async function refreshPage(options?: { isPage?: boolean, session?: string }) {
         let _flag = options?.isPage ?? true;
+        const session = sessions.get(options?.session);
         if (_flag) {
-            await playwright.page.reload();
+            await session.page.reload();
         } else {
-            await playwright.popup.reload();
+            await session.popup.reload();
         }
     }
     
-    export async function getApiResponse(url: string) {
-        const response = await playwright.page.waitForResponse((response) => response.url().includes(url));
+    export async function getApiResponse(url: string, options?: { session?: string }) {
+        const response = await sessions.get(options?.session).page.waitForResponse((response) => response.url().includes(url));
         return response;
     }
 
-    export async function keyboard(method: string, key: string, options?: { isPage?: boolean, pageIndex?: number }) {
+    export async function keyboard(method: string, key: string, options?: { isPage?: boolean, pageIndex?: number, session?: string }) {
         // Check if the action should be performed on the page or popup
         let _isPage = options?.isPage ?? true;
         let _pageIndex = options?.pageIndex ?? 0;
+        const session = sessions.get(options?.session);
         let page: page;
     
         if (_isPage !== true) {
             // If the action is not on the page, handle popup
-            if (playwright.popup === undefined) {
+            if (session.popup === undefined) {
                 const [newPopup] = await Promise.all([
-                    playwright.page.waitForEvent('popup')
+                    session.page.waitForEvent('popup')
                 ]);
-                playwright.popup = newPopup;
+                session.popup = newPopup;
             }
-            page = playwright.popup;
+            page = session.popup;
         } else {
             // If the action is on the page, select the appropriate page
-            const pages = playwright.context.pages();
+            const pages = session.context.pages();
             page = pages[_pageIndex];
         }
     
@@ -0,0 +1,58 @@
+import { mergeHealingReports } from './healing.report';
+import { generateHtmlReport } from './html.report';
+import { exportJUnit, exportResultsJson } from './results.export';
+
+
+/*
+Reports of a finished run, built from the runtime results folder (RUNTIME_RESULTS_PATH):
+    npx ts-node report.cli.ts html [--results <folder>] [--out <file>] [--title <title>] [--run <runId>]
+    npx ts-node report.cli.ts junit [--results <folder>] [--out <file>] [--title <name>] [--run <runId>]
+    npx ts-node report.cli.ts json [--results <folder>] [--out <file>] [--run <runId>]
+    npx ts-node report.cli.ts all [--results <folder>] [--run <runId>]      (html, junit and json with default names)
+    npx ts-node report.cli.ts healing [--run <runId>]                      (merges the healing report files of the workers)
+Without --run the tests of TEST_RUN_ID are reported, or those of the latest run in the folder when it is not set;
+--run all reports every test of the folder. The healing report picks its run the same way.
+*/
+
+
+function readOption(args: string[], name: string) {
+    const index = args.indexOf(name);
+    if (index < 0) return undefined;
+    if (args[index + 1] === undefined || args[index + 1].startsWith('--')) throw new Error(`${name} expects a value`);
+    return args[index + 1];
+}
+
+async function run(args: string[]) {
+    const [command, ...rest] = args;
+    const resultsFolder = readOption(rest, '--results');
+    const outputFile = readOption(rest, '--out');
+    const runId = readOption(rest, '--run');
+    switch (command) {
+        case 'html':
+            generateHtmlReport({ resultsFolder, outputFile, runId, title: readOption(rest, '--title') });
+            return;
+        case 'junit':
+            exportJUnit({ resultsFolder, outputFile, runId, name: readOption(rest, '--title') });
+            return;
+        case 'json':
+            exportResultsJson({ resultsFolder, outputFile, runId });
+            return;
+        case 'all':
+            generateHtmlReport({ resultsFolder, runId });
+            exportJUnit({ resultsFolder, runId });
+            exportResultsJson({ resultsFolder, runId });
+            return;
+        case 'healing': {
+            const entries = await mergeHealingReports(undefined, { runId });
+            console.log(`Healing report has ${entries.length} healed locator(s)`);
+            return;
+        }
+        default:
+            throw new Error(`unknown command [${command}], use html, junit, json, all or healing`);
+    }
+}
+
+run(process.argv.slice(2)).catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+});
@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import { RESULTS_SCHEMA_VERSION, escapeXml, toJUnitXml, toResultsJson } from './results.export';
+import { TestResult } from './run.results';
+
+
+function testResult(changes: Partial<TestResult>): TestResult {
+    return {
+        testId: 'id', title: 'Auths > Create auth', file: 'tests/auths.spec.ts', suite: 'Auths', runId: 'run-1', status: 'passed',
+        startedAt: '2026-01-05T10:00:00.000Z', endedAt: '2026-01-05T10:00:02.000Z', durationMs: 2000, tags: [],
+        soft: [], hard: [], actionFailures: [], steps: [], folder: 'runtime/id', screenshots: [], artifacts: [],
+        ...changes
+    };
+}
+
+const softFailure = { softEquals: 'Failed', Actual: 'Draft', expected: 'Saved', message: 'Auth status', step: 'Save auth' };
+
+test.describe('toJUnitXml', () => {
+    test('counts failed tests as failures and tests which did not finish as errors', async () => {
+        const xml = toJUnitXml([
+            testResult({ testId: '1' }),
+            testResult({ testId: '2', title: 'Auths > Soft', status: 'failed', soft: [softFailure] }),
+            testResult({ testId: '3', title: 'Auths > Timed out', status: 'timedOut', error: 'Test timeout of 30000ms exceeded.' }),
+            testResult({ testId: '4', title: 'Auths > Killed', status: 'running', endedAt: undefined, durationMs: 0 }),
+            testResult({ testId: '5', title: 'Members > Skipped', suite: 'Members', status: 'skipped' })
+        ]);
+        expect(xml).toContain('<testsuites name="run-1" tests="5" failures="1" errors="2" skipped="1"');
+        expect(xml).toContain('<testsuite name="Auths" tests="4" failures="1" errors="2" skipped="0"');
+        expect(xml).toContain('<testsuite name="Members" tests="1" failures="0" errors="0" skipped="1"');
+        expect(xml).toContain('<failure message="1 soft assertion(s) failed" type="SoftAssertionError">Soft 1: [Save auth] softEquals Auth status {Actual : [Draft] - Expected [Saved]}</failure>');
+        expect(xml).toContain('<error message="test running" type="running">');
+    });
+
+    test('escapes the markup and drops characters XML does not allow', async () => {
+        expect(escapeXml(`<a href="x">Tom & 'Jerry'</a>\u001b[31m`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; &apos;Jerry&apos;&lt;/a&gt;[31m');
+        const xml = toJUnitXml([testResult({ title: 'Auths > Save <draft>', status: 'failed', error: 'expected "a" & "b"' })], { name: 'Nightly' });
+        expect(xml).toContain('<testsuites name="Nightly"');
+        expect(xml).toContain('<testcase name="Save &lt;draft&gt;" classname="tests/auths.spec.ts" time="2.000">');
+        expect(xml).toContain('<failure message="expected &quot;a&quot; &amp; &quot;b&quot;" type="AssertionError">');
+    });
+});
+
+test.describe('toResultsJson', () => {
+    test('lists the summary and the tests with their failures, steps and artifact paths', async () => {
+        const step = { title: 'Save auth', path: 'Save auth', status: 'failed', startedAt: '2026-01-05T10:00:01.000Z', durationMs: 400, softFailures: 1, children: [] as any[] };
+        const results = toResultsJson([
+            testResult({ status: 'failed', soft: [softFailure], steps: [step], artifacts: [`${process.cwd()}/runtime/id/test_artifacts/page.png`] }),
+            testResult({ testId: '2', status: 'running', endedAt: undefined, durationMs: 0 })
+        ]);
+        expect(results.schemaVersion).toBe(RESULTS_SCHEMA_VERSION);
+        expect(results.summary).toMatchObject({ runId: 'run-1', total: 2, passed: 0, failed: 1, running: 1, softFailures: 1 });
+        expect(results.tests[0]).toMatchObject({
+            id: 'id',
+            status: 'failed',
+            steps: [{ title: 'Save auth', status: 'failed', softFailures: 1, children: [] }],
+            softFailures: [{ step: 'Save auth', assertion: 'softEquals', message: 'Auth status', actual: 'Draft', expected: 'Saved' }],
+            artifacts: { folder: 'runtime/id', files: ['runtime/id/test_artifacts/page.png'] }
+        });
+        expect(results.tests[1]).toMatchObject({ id: '2', status: 'running', endedAt: undefined });
+    });
+
+    test('redacts the failure messages', async () => {
+        const results = toResultsJson([testResult({ status: 'failed', error: 'login failed for password: s3cret!' })]);
+        expect(results.tests[0].error).toBe('login failed for password: ******');
+    });
+});
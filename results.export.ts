@@ -0,0 +1,192 @@
+import { redactText, redactValue } from './logger';
+import { RunSummary, TestResult, collectTestResults, getAssertionName, getResultsFolder, isFailed, summarize } from './run.results';
+
+
+/*
+Machine readable results of a run for CI dashboards and the run notifier, built from the per-test runtime folders:
+    npx ts-node report.cli.ts junit [--results <folder>] [--out <file>]   (default <results>/junit.xml)
+    npx ts-node report.cli.ts json [--results <folder>] [--out <file>]    (default <results>/results.json)
+JUnit XML has one testsuite per suite and lists the soft assertion failures in the failure text of the test, so they
+show up in CI test tabs. The JSON file follows ResultsJson, versioned by RESULTS_SCHEMA_VERSION: fields are only ever
+added within a version. Artifact paths are relative to the working directory, the workspace root in CI.
+*/
+
+
+export const RESULTS_SCHEMA_VERSION = 1;
+
+export type ResultsJsonStep = {
+    title: string,
+    path: string,
+    status: string,
+    startedAt: string,
+    durationMs: number,
+    softFailures: number,
+    error?: string,
+    children: ResultsJsonStep[]
+}
+
+export type ResultsJsonFailure = { step?: string, assertion: string, message: string, actual: string, expected: string };
+
+export type ResultsJsonTest = {
+    id: string,
+    title: string,
+    suite: string,
+    file?: string,
+    status: string,
+    startedAt: string,
+    endedAt?: string,
+    durationMs: number,
+    tags: string[],
+    error?: string,
+    steps: ResultsJsonStep[],
+    softFailures: ResultsJsonFailure[],
+    hardFailures: ResultsJsonFailure[],
+    actionFailures: { step?: string, action: string, object: string, error: string }[],
+    artifacts: { folder: string, log?: string, jsonLog?: string, screenshots: string[], files: string[] }
+}
+
+export type ResultsJson = {
+    schemaVersion: number,
+    generatedAt: string,
+    summary: RunSummary,
+    tests: ResultsJsonTest[]
+}
+
+function toArtifactPath(file: string) {
+    const path = require("path");
+    if (file === undefined) return undefined;
+    return path.relative(process.cwd(), file).split(path.sep).join('/');
+}
+
+function toStep(node: any): ResultsJsonStep {
+    return {
+        title: node.title,
+        path: node.path,
+        status: node.status,
+        startedAt: node.startedAt,
+        durationMs: node.durationMs ?? 0,
+        softFailures: node.softFailures ?? 0,
+        error: node.error,
+        children: (node.children ?? []).map(toStep)
+    };
+}
+
+function toFailure(record: any): ResultsJsonFailure {
+    return { step: record.step, assertion: getAssertionName(record), message: `${record.message ?? ''}`, actual: `${record.Actual ?? ''}`, expected: `${record.expected ?? ''}` };
+}
+
+export function toResultsJson(results: TestResult[]): ResultsJson {
+    return redactValue({
+        schemaVersion: RESULTS_SCHEMA_VERSION,
+        generatedAt: new Date().toISOString(),
+        summary: summarize(results),
+        tests: results.map((result): ResultsJsonTest => ({
+            id: result.testId,
+            title: result.title,
+            suite: result.suite,
+            file: result.file,
+            status: result.status,
+            startedAt: result.startedAt,
+            endedAt: result.endedAt,
+            durationMs: result.durationMs,
+            tags: result.tags,
+            error: result.error,
+            steps: result.steps.map(toStep),
+            softFailures: result.soft.map(toFailure),
+            hardFailures: result.hard.map(toFailure),
+            actionFailures: result.actionFailures.map((record) => ({ step: record.step, action: record.action, object: record.object, error: record.error })),
+            artifacts: {
+                folder: toArtifactPath(result.folder),
+                log: toArtifactPath(result.logFile),
+                jsonLog: toArtifactPath(result.jsonLogFile),
+                screenshots: result.screenshots.map(toArtifactPath),
+                files: result.artifacts.map(toArtifactPath)
+            }
+        }))
+    });
+}
+
+// Attribute and text content; characters XML 1.0 does not allow (terminal colour codes in errors) are dropped
+export function escapeXml(value: any) {
+    return `${value ?? ''}`.replace(/[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+        .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function toSeconds(durationMs: number) {
+    return (durationMs / 1000).toFixed(3);
+}
+
+function describeFailures(result: TestResult) {
+    const lines: string[] = [];
+    if (result.error !== undefined) lines.push(result.error);
+    result.soft.forEach((record, index) => lines.push(`Soft ${index + 1}: ${record.step === undefined ? '' : `[${record.step}] `}${getAssertionName(record)} ${record.message} {Actual : [${record.Actual}] - Expected [${record.expected}]}`));
+    result.hard.forEach((record) => lines.push(`Hard: ${record.step === undefined ? '' : `[${record.step}] `}${getAssertionName(record)} ${record.message} {Actual : [${record.Actual}] - Expected [${record.expected}]}`));
+    result.actionFailures.forEach((record) => lines.push(`Action: ${record.step === undefined ? '' : `[${record.step}] `}${record.action} on ${record.object} - ${record.error}`));
+    return redactText(lines.join('\n'));
+}
+
+function renderStepLines(steps: any[], indent: string = ''): string[] {
+    return (steps ?? []).flatMap((node) => [`${indent}${node.status === 'passed' ? '[PASS]' : node.status === 'failed' ? '[FAIL]' : '[....]'} ${node.title} (${node.durationMs ?? '-'} ms)`,
+        ...renderStepLines(node.children, `${indent}    `)]);
+}
+
+function renderTestCase(result: TestResult) {
+    const classname = result.file === undefined ? result.suite : `${toArtifactPath(result.file)}`;
+    const name = result.title.split(' > ').slice(result.title.includes(' > ') ? 1 : 0).join(' > ');
+    const lines = [`    <testcase name="${escapeXml(name)}" classname="${escapeXml(classname)}" time="${toSeconds(result.durationMs)}">`];
+    if (result.tags.length > 0 || result.soft.length > 0) {
+        lines.push('      <properties>');
+        result.tags.forEach((tag) => lines.push(`        <property name="tag" value="${escapeXml(tag)}"/>`));
+        lines.push(`        <property name="softFailures" value="${result.soft.length}"/>`);
+        lines.push('      </properties>');
+    }
+    if (result.status === 'skipped') {
+        lines.push('      <skipped/>');
+    } else if (result.status === 'timedOut' || result.status === 'interrupted' || result.status === 'running') {
+        lines.push(`      <error message="${escapeXml(`test ${result.status}`)}" type="${escapeXml(result.status)}">${escapeXml(describeFailures(result))}</error>`);
+    } else if (isFailed(result)) {
+        const message = result.error ?? `${result.soft.length} soft assertion(s) failed`;
+        lines.push(`      <failure message="${escapeXml(redactText(message.split('\n')[0]))}" type="${result.soft.length > 0 && result.error === undefined ? 'SoftAssertionError' : 'AssertionError'}">${escapeXml(describeFailures(result))}</failure>`);
+    }
+    // [[ATTACHMENT|path]] lines are picked up by the Jenkins and GitLab JUnit parsers
+    const output = [...renderStepLines(result.steps), ...result.artifacts.map((file) => `[[ATTACHMENT|${toArtifactPath(file)}]]`)];
+    if (output.length > 0) lines.push(`      <system-out>${escapeXml(redactText(output.join('\n')))}</system-out>`);
+    lines.push('    </testcase>');
+    return lines.join('\n');
+}
+
+export function toJUnitXml(results: TestResult[], options?: { name?: string }) {
+    const summary = summarize(results);
+    // Same split as renderTestCase: failed tests are failures, tests which timed out, were interrupted or never finished errors
+    const failureCount = (tests: TestResult[]) => tests.filter((result) => result.status === 'failed').length;
+    const errorCount = (tests: TestResult[]) => tests.filter((result) => ['timedOut', 'interrupted', 'running'].includes(result.status)).length;
+    const suites = Array.from(new Set(results.map((result) => result.suite))).map((suite) => {
+        const tests = results.filter((result) => result.suite === suite);
+        const suiteSummary = summarize(tests);
+        return `  <testsuite name="${escapeXml(suite)}" tests="${tests.length}" failures="${failureCount(tests)}" errors="${errorCount(tests)}" skipped="${suiteSummary.skipped}"`
+            + ` time="${toSeconds(suiteSummary.durationMs)}" timestamp="${escapeXml(suiteSummary.startedAt ?? '')}">\n${tests.map(renderTestCase).join('\n')}\n  </testsuite>`;
+    });
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="${escapeXml(options?.name ?? summary.runId ?? 'Test run')}" tests="${summary.total}" failures="${failureCount(results)}"`
+        + ` errors="${errorCount(results)}" skipped="${summary.skipped}" time="${toSeconds(summary.durationMs)}">\n${suites.join('\n')}\n</testsuites>\n`;
+}
+
+function writeExport(outputFile: string, content: string, description: string, count: number) {
+    const fs = require("fs");
+    const path = require("path");
+    fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+    fs.writeFileSync(outputFile, content, 'utf-8');
+    console.log(`${description} of ${count} test(s) written to ${outputFile}`);
+    return outputFile;
+}
+
+export function exportJUnit(options?: { resultsFolder?: string, outputFile?: string, runId?: string, name?: string }) {
+    const resultsFolder = options?.resultsFolder ?? getResultsFolder();
+    const results = collectTestResults(resultsFolder, { runId: options?.runId });
+    return writeExport(options?.outputFile ?? `${resultsFolder}/junit.xml`, toJUnitXml(results, { name: options?.name }), 'JUnit XML', results.length);
+}
+
+export function exportResultsJson(options?: { resultsFolder?: string, outputFile?: string, runId?: string }) {
+    const resultsFolder = options?.resultsFolder ?? getResultsFolder();
+    const results = collectTestResults(resultsFolder, { runId: options?.runId });
+    return writeExport(options?.outputFile ?? `${resultsFolder}/results.json`, JSON.stringify(toResultsJson(results), null, 2), 'Results JSON', results.length);
+}
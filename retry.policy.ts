@@ -0,0 +1,102 @@
+import config from './config';
+import logger from './logger';
+
+
+/*
+Retry-with-backoff for flaky UI interactions. The application re-renders tables and overlays often, so an action can
+fail because its element was detached or another element intercepted the click. Only errors whose name or message
+contains one of the retryable patterns are retried; everything else fails immediately. Callers whose errors carry a
+status or code instead, e.g. HTTP clients, decide with an isRetryable predicate. The global policy is seeded from
+the RETRY_* keys in project.config.json and can be overridden per element and per call.
+*/
+
+
+export type RetryPolicy = {
+    enabled: boolean,
+    maxAttempts: number,
+    backoffMs: number,
+    backoffMultiplier: number,
+    retryableErrors: string[],
+    // Replaces the retryableErrors patterns when set
+    isRetryable?: (error: any) => boolean
+}
+
+export type RetryAttempt = {
+    attempt: number,
+    error: string,
+    elapsedMs: number
+}
+
+export class RetryExhaustedError extends Error {
+    attempts: RetryAttempt[];
+    lastError: Error;
+
+    constructor(description: string, attempts: RetryAttempt[], lastError: Error) {
+        super(`${description} failed after ${attempts.length} attempt(s):\n${attempts.map((a) => `  [${a.attempt}] after ${a.elapsedMs} ms - ${a.error}`).join('\n')}`);
+        this.name = 'RetryExhaustedError';
+        this.attempts = attempts;
+        this.lastError = lastError;
+    }
+}
+
+function defaultRetryPolicy(): RetryPolicy {
+    return {
+        enabled: config.RETRY_ENABLED,
+        maxAttempts: config.RETRY_MAX_ATTEMPTS,
+        backoffMs: config.RETRY_BACKOFF_MS,
+        backoffMultiplier: config.RETRY_BACKOFF_MULTIPLIER,
+        retryableErrors: config.RETRY_ERRORS
+    };
+}
+
+let globalRetryPolicy: RetryPolicy = defaultRetryPolicy();
+
+export function getRetryPolicy(): RetryPolicy {
+    return { ...globalRetryPolicy };
+}
+
+export function setRetryPolicy(overrides: Partial<RetryPolicy>) {
+    globalRetryPolicy = { ...globalRetryPolicy, ...overrides };
+}
+
+export function resetRetryPolicy() {
+    globalRetryPolicy = defaultRetryPolicy();
+}
+
+// Merges the global, element and call level settings. `false` on the call disables retrying, `true` forces it on
+export function resolveRetryPolicy(elementPolicy?: Partial<RetryPolicy>, callPolicy?: boolean | Partial<RetryPolicy>): RetryPolicy {
+    let policy = { ...globalRetryPolicy, ...elementPolicy };
+    if (typeof callPolicy === 'boolean') {
+        policy.enabled = callPolicy;
+    } else if (callPolicy !== undefined) {
+        policy = { ...policy, enabled: true, ...callPolicy };
+    }
+    return policy;
+}
+
+export function isRetryableError(error: any, policy: RetryPolicy) {
+    if (policy.isRetryable !== undefined) return policy.isRetryable(error);
+    const text = `${error?.name}: ${error?.message}`.toLowerCase();
+    return policy.retryableErrors.some((pattern) => text.includes(pattern.toLowerCase()));
+}
+
+export async function withRetry<T>(description: string, action: () => Promise<T>, policy: RetryPolicy = globalRetryPolicy): Promise<T> {
+    const maxAttempts = policy.enabled ? Math.max(1, policy.maxAttempts) : 1;
+    const attempts: RetryAttempt[] = [];
+    const startTime = Date.now();
+    let backoff = policy.backoffMs;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await action();
+        } catch (error) {
+            attempts.push({ attempt: attempt, error: `${error?.name}: ${error?.message?.split('\n')[0]}`, elapsedMs: Date.now() - startTime });
+            if (!policy.enabled) throw error;
+            if (attempt >= maxAttempts || !isRetryableError(error, policy)) {
+                throw attempts.length > 1 ? new RetryExhaustedError(description, attempts, error) : error;
+            }
+            await logger.info(`Retry :: ${description} - attempt ${attempt} of ${maxAttempts} failed (${attempts[attempts.length - 1].error}), retrying in ${backoff} ms`);
+            await new Promise(resolve => setTimeout(resolve, backoff));
+            backoff = backoff * policy.backoffMultiplier;
+        }
+    }
+}
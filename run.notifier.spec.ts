@@ -0,0 +1,60 @@
+import { test, expect } from '@playwright/test';
+import { HttpPostSink, NotificationHttpError, RunNotification, isRetryableNotificationError } from './run.notifier';
+
+
+const notification: RunNotification = {
+    title: 'Test run', status: 'passed', text: 'PASSED Test run: 1/1 passed',
+    summary: { total: 1, passed: 1, failed: 0, skipped: 0, running: 0, softFailures: 0, durationMs: 1000 }, topFailures: []
+};
+
+// Answers the requests with the given statuses in turn, the last one repeats
+async function startStub(answers: { status: number, body: string }[]) {
+    const http = require("http");
+    const requests: any[] = [];
+    const server = http.createServer((request: any, response: any) => {
+        let text = '';
+        request.on('data', (chunk: string) => text += chunk);
+        request.on('end', () => {
+            requests.push(JSON.parse(text));
+            const answer = answers[Math.min(requests.length, answers.length) - 1];
+            response.writeHead(answer.status, { 'Content-Type': 'text/plain' });
+            response.end(answer.body);
+        });
+    });
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return { url: `http://127.0.0.1:${server.address().port}/hook`, requests, close: () => new Promise((resolve) => server.close(resolve)) };
+}
+
+test.describe('isRetryableNotificationError', () => {
+    test('retries on 429, 5xx and network error codes only', async () => {
+        expect(isRetryableNotificationError(new NotificationHttpError('hooks', 503, ''))).toBe(true);
+        expect(isRetryableNotificationError(new NotificationHttpError('hooks', 429, ''))).toBe(true);
+        expect(isRetryableNotificationError(new NotificationHttpError('hooks', 400, 'upstream answered HTTP 500, ECONNRESET'))).toBe(false);
+        expect(isRetryableNotificationError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+        expect(isRetryableNotificationError(new Error('ECONNREFUSED'))).toBe(false);
+    });
+});
+
+test.describe('HttpPostSink', () => {
+    test('retries a 503 answer and delivers on the next attempt', async () => {
+        const stub = await startStub([{ status: 503, body: 'busy' }, { status: 200, body: 'ok' }]);
+        try {
+            await new HttpPostSink(stub.url).send(notification, { dryRun: false });
+            expect(stub.requests).toEqual([notification, notification]);
+        } finally {
+            await stub.close();
+        }
+    });
+
+    test('does not retry a 400 answer even when its body mentions a server error', async () => {
+        const stub = await startStub([{ status: 400, body: 'bad payload, upstream answered HTTP 500' }]);
+        try {
+            const sending = new HttpPostSink(stub.url).send(notification, { dryRun: false });
+            await expect(sending).rejects.toThrow(NotificationHttpError);
+            await expect(sending).rejects.toMatchObject({ status: 400 });
+            expect(stub.requests).toHaveLength(1);
+        } finally {
+            await stub.close();
+        }
+    });
+});
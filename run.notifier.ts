@@ -0,0 +1,265 @@
+import config, { resolveProjectPath } from './config';
+import logger, { redactValue } from './logger';
+import { RetryPolicy, withRetry } from './retry.policy';
+import { RunSummary, TestResult, collectTestResults, formatDuration, getResultsFolder, isFailed, summarize } from './run.results';
+
+
+/*
+Summary of a finished run sent to the channels the team watches, e.g. from globalTeardown or a CI step:
+    npx ts-node notify.cli.ts [--sinks slack,file] [--results <folder>] [--run <runId>] [--report-url <url>] [--dry-run]
+The message text comes from NOTIFY_MESSAGE_TEMPLATE with {placeholders} for the counts (see buildNotification) and is
+followed by the top NOTIFY_TOP_FAILURES failing tests and the report link. Every sink NOTIFY_SINKS names receives it:
+    slack  - incoming webhook NOTIFY_SLACK_WEBHOOK_URL
+    teams  - incoming webhook NOTIFY_TEAMS_WEBHOOK_URL (MessageCard)
+    http   - the plain RunNotification JSON POSTed to NOTIFY_HTTP_URL, extra headers as JSON in NOTIFY_HTTP_HEADERS
+    file   - the RunNotification JSON written to NOTIFY_FILE_PATH
+The urls are secrets and only come from the environment. Connection errors, timeouts, 429 and 5xx answers are
+retried with backoff, judged by the error code and HTTP status; one failing sink does not stop the others. With dry-run the payloads are logged, nothing is sent.
+Further sinks are added with registerNotificationSink.
+*/
+
+
+export type RunNotification = {
+    title: string,
+    status: 'passed' | 'failed',
+    text: string,
+    env?: string,
+    summary: RunSummary,
+    topFailures: { title: string, suite: string, status: string, softFailures: number, error?: string }[],
+    reportUrl?: string
+}
+
+export interface NotificationSink {
+    name: string;
+    send(notification: RunNotification, options: { dryRun: boolean }): Promise<void>;
+}
+
+export type SinkDelivery = { sink: string, delivered: boolean, dryRun: boolean, error?: string };
+
+export class NotificationHttpError extends Error {
+    host: string;
+    status: number;
+
+    constructor(host: string, status: number, body: string) {
+        super(`${host} rejected the notification with HTTP ${status}: ${`${body}`.substring(0, 200)}`);
+        this.name = 'NotificationHttpError';
+        this.host = host;
+        this.status = status;
+    }
+}
+
+const RETRYABLE_NETWORK_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN'];
+
+// Decided on the status and code only, the message of an HTTP error quotes the response body
+export function isRetryableNotificationError(error: any) {
+    if (error instanceof NotificationHttpError) return error.status === 429 || error.status >= 500;
+    return RETRYABLE_NETWORK_CODES.includes(error?.code);
+}
+
+function notificationRetryPolicy(): RetryPolicy {
+    return {
+        enabled: true,
+        maxAttempts: config.NOTIFY_RETRY_ATTEMPTS,
+        backoffMs: config.NOTIFY_RETRY_BACKOFF_MS,
+        backoffMultiplier: 2,
+        retryableErrors: [],
+        isRetryable: isRetryableNotificationError
+    };
+}
+
+// "{passed}/{total} passed" with the values of the notification; unknown placeholders are left as they are
+export function renderTemplate(template: string, values: Record<string, any>) {
+    return template.replace(/\{(\w+)\}/g, (match: string, name: string) => values[name] === undefined ? match : `${values[name]}`);
+}
+
+export function buildNotification(results: TestResult[], options?: { template?: string, topFailures?: number, reportUrl?: string, title?: string }): RunNotification {
+    const summary = summarize(results);
+    const env = process.env.TEST_ENV;
+    // Tests which never finished fail the run as well, their outcome is unknown
+    const status = summary.failed > 0 || summary.running > 0 || summary.softFailures > 0 ? 'failed' : 'passed';
+    const title = options?.title ?? `Test run${summary.runId === undefined ? '' : ` ${summary.runId}`}${env === undefined ? '' : ` (${env})`}`;
+    const reportUrl = renderTemplate(options?.reportUrl ?? config.NOTIFY_REPORT_URL, { runId: summary.runId ?? '', env: env ?? '' });
+    const values = { ...summary, status: status.toUpperCase(), title, env: env ?? '', runId: summary.runId ?? '', duration: formatDuration(summary.durationMs), reportUrl };
+    // Hard failures first, then the tests with the most soft failures
+    const topFailures = results.filter((result) => isFailed(result) || result.status === 'running' || result.soft.length > 0)
+        .sort((a, b) => Number(isFailed(b) && b.soft.length === 0) - Number(isFailed(a) && a.soft.length === 0) || b.soft.length - a.soft.length)
+        .slice(0, options?.topFailures ?? config.NOTIFY_TOP_FAILURES)
+        .map((result) => ({ title: result.title, suite: result.suite, status: result.status, softFailures: result.soft.length, error: result.error?.split('\n')[0] }));
+    return redactValue({
+        title: title,
+        status: status,
+        text: renderTemplate(options?.template ?? config.NOTIFY_MESSAGE_TEMPLATE, values),
+        env: env,
+        summary: summary,
+        topFailures: topFailures,
+        reportUrl: reportUrl === '' ? undefined : reportUrl
+    });
+}
+
+function describeFailure(failure: RunNotification['topFailures'][number]) {
+    const details = [failure.status, failure.softFailures > 0 ? `${failure.softFailures} soft failure(s)` : undefined, failure.error].filter((detail) => detail !== undefined);
+    return `${failure.title} - ${details.join(', ')}`;
+}
+
+// POSTs the JSON body with node's http(s), resolving with the status and body of any 2xx answer
+export function postJson(url: string, body: any, options?: { headers?: Record<string, string>, timeoutMs?: number }): Promise<{ status: number, body: string }> {
+    const transport = url.startsWith('https:') ? require("https") : require("http");
+    const payload = JSON.stringify(body);
+    const timeoutMs = options?.timeoutMs ?? config.NOTIFY_TIMEOUT_MS;
+    return new Promise((resolve, reject) => {
+        const request = transport.request(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload), ...options?.headers }
+        }, (response: any) => {
+            let text = '';
+            response.setEncoding('utf-8');
+            response.on('data', (chunk: string) => text += chunk);
+            response.on('end', () => response.statusCode >= 200 && response.statusCode < 300
+                ? resolve({ status: response.statusCode, body: text })
+                : reject(new NotificationHttpError(new URL(url).host, response.statusCode, text)));
+        });
+        request.setTimeout(timeoutMs, () => request.destroy(Object.assign(new Error(`request timed out after ${timeoutMs} ms`), { code: 'ETIMEDOUT' })));
+        request.on('error', reject);
+        request.end(payload);
+    });
+}
+
+// Sends the payload of the notification as JSON to a url; the webhook sinks only change the payload
+export class HttpPostSink implements NotificationSink {
+    name: string;
+    protected url: string;
+    protected headers: Record<string, string>;
+
+    constructor(url: string, options?: { name?: string, headers?: Record<string, string> }) {
+        this.name = options?.name ?? 'http';
+        this.url = url;
+        this.headers = options?.headers ?? {};
+        if (url === undefined || url === '') throw new Error(`${this.name} sink needs a url`);
+        logger.registerSecret(url);
+    }
+
+    toPayload(notification: RunNotification): any {
+        return notification;
+    }
+
+    async send(notification: RunNotification, options: { dryRun: boolean }) {
+        const payload = this.toPayload(notification);
+        if (options.dryRun) {
+            await logger.info(`Notifier :: dry run, ${this.name} payload: ${JSON.stringify(payload, null, 2)}`);
+            return;
+        }
+        await withRetry(`${this.name} notification`, async () => await postJson(this.url, payload, { headers: this.headers }), notificationRetryPolicy());
+    }
+}
+
+export class SlackWebhookSink extends HttpPostSink {
+    constructor(url: string) {
+        super(url, { name: 'slack' });
+    }
+
+    toPayload(notification: RunNotification) {
+        const icon = notification.status === 'passed' ? ':white_check_mark:' : ':x:';
+        const blocks: any[] = [{ type: 'section', text: { type: 'mrkdwn', text: `${icon} *${notification.text}*` } }];
+        if (notification.topFailures.length > 0) {
+            blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `*Top failures*\n${notification.topFailures.map((failure) => `• ${describeFailure(failure)}`).join('\n')}` } });
+        }
+        if (notification.reportUrl !== undefined) {
+            blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: `<${notification.reportUrl}|Open the report>` }] });
+        }
+        return { text: notification.text, blocks: blocks };
+    }
+}
+
+export class TeamsWebhookSink extends HttpPostSink {
+    constructor(url: string) {
+        super(url, { name: 'teams' });
+    }
+
+    toPayload(notification: RunNotification) {
+        const summary = notification.summary;
+        return {
+            '@type': 'MessageCard',
+            '@context': 'https://schema.org/extensions',
+            themeColor: notification.status === 'passed' ? '2E7D32' : 'C62828',
+            summary: notification.title,
+            title: notification.title,
+            text: notification.text,
+            sections: [
+                { facts: [['Passed', summary.passed], ['Failed', summary.failed], ['Skipped', summary.skipped], ...(summary.running > 0 ? [['Not finished', summary.running]] : []),
+                    ['Soft failures', summary.softFailures], ['Duration', formatDuration(summary.durationMs)]]
+                    .map(([name, value]) => ({ name: name, value: `${value}` })) },
+                ...(notification.topFailures.length === 0 ? [] : [{ title: 'Top failures', text: notification.topFailures.map((failure) => `- ${describeFailure(failure)}`).join('\n\n') }])
+            ],
+            potentialAction: notification.reportUrl === undefined ? [] : [{ '@type': 'OpenUri', name: 'Open the report', targets: [{ os: 'default', uri: notification.reportUrl }] }]
+        };
+    }
+}
+
+export class FileSink implements NotificationSink {
+    name = 'file';
+    protected filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    async send(notification: RunNotification, options: { dryRun: boolean }) {
+        if (options.dryRun) {
+            await logger.info(`Notifier :: dry run, file ${this.filePath} not written`);
+            return;
+        }
+        const fs = require("fs");
+        const path = require("path");
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify(notification, null, 2), 'utf-8');
+    }
+}
+
+function readHeaders() {
+    const headers = process.env.NOTIFY_HTTP_HEADERS;
+    if (headers === undefined || headers === '') return undefined;
+    try {
+        return JSON.parse(headers);
+    } catch (error) {
+        throw new Error('NOTIFY_HTTP_HEADERS is not valid JSON');
+    }
+}
+
+const sinkFactories = new Map<string, () => NotificationSink>([
+    ['slack', () => new SlackWebhookSink(process.env.NOTIFY_SLACK_WEBHOOK_URL)],
+    ['teams', () => new TeamsWebhookSink(process.env.NOTIFY_TEAMS_WEBHOOK_URL)],
+    ['http', () => new HttpPostSink(process.env.NOTIFY_HTTP_URL, { headers: readHeaders() })],
+    ['file', () => new FileSink(resolveProjectPath(config.NOTIFY_FILE_PATH))]
+]);
+
+// Adds or replaces the sink used for the name in NOTIFY_SINKS or --sinks
+export function registerNotificationSink(name: string, factory: () => NotificationSink) {
+    sinkFactories.set(name, factory);
+}
+
+export function createSink(name: string): NotificationSink {
+    const factory = sinkFactories.get(name);
+    if (factory === undefined) throw new Error(`unknown notification sink [${name}], use ${Array.from(sinkFactories.keys()).join(', ')}`);
+    return factory();
+}
+
+// Sends the summary of the run to every sink and reports per sink whether it was delivered
+export async function notifyRun(options?: { resultsFolder?: string, runId?: string, sinks?: (string | NotificationSink)[], reportUrl?: string, dryRun?: boolean }): Promise<SinkDelivery[]> {
+    const dryRun = options?.dryRun ?? false;
+    const results = collectTestResults(options?.resultsFolder ?? getResultsFolder(), { runId: options?.runId });
+    const notification = buildNotification(results, { reportUrl: options?.reportUrl });
+    const deliveries: SinkDelivery[] = [];
+    for (const entry of options?.sinks ?? config.NOTIFY_SINKS) {
+        const name = typeof entry === 'string' ? entry : entry.name;
+        try {
+            const sink = typeof entry === 'string' ? createSink(entry) : entry;
+            await sink.send(notification, { dryRun });
+            deliveries.push({ sink: name, delivered: !dryRun, dryRun });
+            await logger.info(`Notifier :: ${name} ${dryRun ? 'dry run done' : 'notified'} - ${notification.text}`);
+        } catch (error) {
+            deliveries.push({ sink: name, delivered: false, dryRun, error: error.message });
+            await logger.error(`Notifier :: ${name} failed - ${error.message}`);
+        }
+    }
+    return deliveries;
+}
@@ -0,0 +1,171 @@
+import config, { resolveProjectPath } from './config';
+import { AssertsJson } from './assert.scope';
+
+
+/*
+Reads back the per-test runtime folders written during a run (see getTestRuntimeFolder): the assertion results with the
+step tree (asserts.json), the test log (test.log, test.jsonl) and the failure artifacts (test_artifacts). The reports
+and exporters work on these results only, so they run after the test run, on any machine that has the folder.
+Only the tests of one run are read, see collectTestResults.
+*/
+
+
+export type TestStatus = 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted' | 'running';
+
+export type TestResult = {
+    testId: string,
+    title: string,
+    file?: string,
+    suite: string,
+    runId?: string,
+    status: TestStatus,
+    startedAt: string,
+    endedAt?: string,
+    durationMs: number,
+    tags: string[],
+    error?: string,
+    soft: any[],
+    hard: any[],
+    actionFailures: any[],
+    steps: any[],
+    folder: string,
+    logFile?: string,
+    jsonLogFile?: string,
+    screenshots: string[],
+    artifacts: string[]
+}
+
+export type RunSummary = {
+    runId?: string,
+    total: number,
+    passed: number,
+    failed: number,
+    skipped: number,
+    // Tests which never finished, e.g. their worker was killed; they count in total but not as passed, failed or skipped
+    running: number,
+    softFailures: number,
+    startedAt?: string,
+    endedAt?: string,
+    durationMs: number
+}
+
+export function getResultsFolder() {
+    return resolveProjectPath(config.RUNTIME_RESULTS_PATH);
+}
+
+// "Auths > Create auth @smoke" belongs to the describe block "Auths", a test without describe block to its spec file
+function getSuite(assertsJson: AssertsJson) {
+    const path = require("path");
+    const titlePath = `${assertsJson.title}`.split(' > ');
+    if (titlePath.length > 1) return titlePath[0];
+    return assertsJson.file === undefined ? 'Tests' : path.basename(assertsJson.file);
+}
+
+function listFiles(folder: string): string[] {
+    const fs = require("fs");
+    if (!fs.existsSync(folder)) return [];
+    return fs.readdirSync(folder).sort().map((name: string) => `${folder}/${name}`);
+}
+
+function readTestFolder(folder: string): TestResult {
+    const fs = require("fs");
+    const assertsFile = `${folder}/asserts.json`;
+    if (!fs.existsSync(assertsFile)) return undefined;
+    let assertsJson: AssertsJson;
+    try {
+        assertsJson = JSON.parse(fs.readFileSync(assertsFile, 'utf-8'));
+    } catch (error) {
+        console.warn(`Skipping ${assertsFile}: ${error.message}`);
+        return undefined;
+    }
+    const artifacts = listFiles(`${folder}/test_artifacts`);
+    const endedAt = assertsJson.endedAt;
+    return {
+        testId: assertsJson.testId,
+        title: assertsJson.title,
+        file: assertsJson.file,
+        suite: getSuite(assertsJson),
+        runId: assertsJson.runId,
+        // A test without endedAt never reached endAssertScope, e.g. its worker was killed
+        status: (assertsJson.status ?? (endedAt === undefined ? 'running' : 'passed')) as TestStatus,
+        startedAt: assertsJson.startedAt,
+        endedAt: endedAt,
+        durationMs: endedAt === undefined ? 0 : new Date(endedAt).getTime() - new Date(assertsJson.startedAt).getTime(),
+        tags: assertsJson.tags ?? [],
+        error: assertsJson.error,
+        soft: assertsJson.soft ?? [],
+        hard: assertsJson.hard ?? [],
+        actionFailures: assertsJson.actionFailures ?? [],
+        steps: assertsJson.steps ?? [],
+        folder: folder,
+        logFile: fs.existsSync(`${folder}/test.log`) ? `${folder}/test.log` : undefined,
+        jsonLogFile: fs.existsSync(`${folder}/test.jsonl`) ? `${folder}/test.jsonl` : undefined,
+        screenshots: artifacts.filter((file) => file.endsWith('.png')),
+        artifacts: artifacts
+    };
+}
+
+// Run of the most recently started test; tests written without a run id form a run of their own
+function getLatestRunId(results: TestResult[]) {
+    const latest = results.reduce((newest, result) => newest === undefined || `${result.startedAt}` > `${newest.startedAt}` ? result : newest, undefined as TestResult);
+    return latest?.runId;
+}
+
+/*
+Results of the test folders under the results folder, ordered by suite and start time. The folders of earlier runs stay
+until they are cleaned up, so only one run is returned: the given runId, else TEST_RUN_ID, else the latest run found.
+runId 'all' returns every folder.
+*/
+export function collectTestResults(resultsFolder: string = getResultsFolder(), options?: { runId?: string }): TestResult[] {
+    const fs = require("fs");
+    const requestedRunId = options?.runId ?? process.env.TEST_RUN_ID;
+    let results = listFiles(resultsFolder)
+        .filter((folder) => fs.statSync(folder).isDirectory())
+        .map(readTestFolder)
+        .filter((result) => result !== undefined);
+    if (requestedRunId !== 'all') {
+        const runIds = new Set(results.map((result) => result.runId));
+        const runId = requestedRunId ?? getLatestRunId(results);
+        if (requestedRunId === undefined && runIds.size > 1) {
+            console.warn(`${resultsFolder} holds ${runIds.size} runs, reporting the latest (${runId ?? 'without run id'}); choose another with --run <runId> or --run all`);
+        }
+        results = results.filter((result) => result.runId === runId);
+    }
+    return results.sort((a, b) => a.suite.localeCompare(b.suite) || `${a.startedAt}`.localeCompare(`${b.startedAt}`));
+}
+
+// Soft and hard records are keyed by the assertion that failed, e.g. { softContains: "Failed", Actual, expected, message }
+export function getAssertionName(record: any) {
+    return Object.keys(record ?? {}).find((key) => record[key] === 'Failed') ?? 'assertion';
+}
+
+export function formatDuration(durationMs: number) {
+    if (durationMs === undefined || durationMs === null) return '-';
+    if (durationMs < 1000) return `${durationMs} ms`;
+    const seconds = durationMs / 1000;
+    return seconds < 60 ? `${seconds.toFixed(1)} s` : `${Math.floor(seconds / 60)} m ${Math.round(seconds % 60)} s`;
+}
+
+export function isFailed(result: TestResult) {
+    return result.status === 'failed' || result.status === 'timedOut' || result.status === 'interrupted';
+}
+
+export function summarize(results: TestResult[]): RunSummary {
+    const startTimes = results.map((result) => result.startedAt).filter((value) => value !== undefined).sort();
+    const endTimes = results.map((result) => result.endedAt).filter((value) => value !== undefined).sort();
+    const startedAt = startTimes[0];
+    const endedAt = endTimes[endTimes.length - 1];
+    return {
+        runId: results.find((result) => result.runId !== undefined)?.runId,
+        total: results.length,
+        passed: results.filter((result) => result.status === 'passed').length,
+        failed: results.filter(isFailed).length,
+        skipped: results.filter((result) => result.status === 'skipped').length,
+        running: results.filter((result) => result.status === 'running').length,
+        softFailures: results.reduce((count, result) => count + result.soft.length, 0),
+        startedAt: startedAt,
+        endedAt: endedAt,
+        // Wall clock of the run, parallel workers overlap
+        durationMs: startedAt === undefined || endedAt === undefined ? 0 : new Date(endedAt).getTime() - new Date(startedAt).getTime()
+    };
+}
@@ -0,0 +1,27 @@
+import runtimeStore from './runtime.store';
+
+
+/*
+Command line cleanup of the runtime data store, deleting the run namespaces older than the retention period:
+    npx ts-node runtime.purge.ts [--older-than-hours 72] [--dry-run]
+Without --older-than-hours the retention comes from RUNTIME_STORE_RETENTION_HOURS. Global records are never touched.
+*/
+
+
+function readArgs(args: string[]) {
+    const index = args.indexOf('--older-than-hours');
+    const olderThanHours = index >= 0 ? Number(args[index + 1]) : undefined;
+    if (olderThanHours !== undefined && (isNaN(olderThanHours) || olderThanHours < 0)) {
+        throw new Error(`--older-than-hours expects a number of hours but got [${args[index + 1]}]`);
+    }
+    return { olderThanHours: olderThanHours, dryRun: args.includes('--dry-run') };
+}
+
+async function run(args: string[]) {
+    await runtimeStore.purgeRuns(readArgs(args));
+}
+
+run(process.argv.slice(2)).catch((error) => {
+    console.error(error.message);
+    process.exitCode = 1;
+});
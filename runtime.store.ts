@@ -0,0 +1,159 @@
+import config from './config';
+import testContext from './testContext';
+import logger from './logger';
+import { getTxnFilePath, withFileLock, writeJsonDataAtomic } from './file.utils';
+
+
+/*
+Keyed transaction records shared between tests, e.g. the case ID created by one test and consumed by another. Records
+live in JSON files under RUN_TIME_DATA_PATH and are namespaced by scope:
+  - global: <RUN_TIME_DATA_PATH>/<name>.json, kept across runs (the files getTxnFilePath points at)
+  - run:    <RUN_TIME_DATA_PATH>/runs/<runId>/<name>.json, shared by all tests and workers of one run (default)
+  - test:   <RUN_TIME_DATA_PATH>/runs/<runId>/tests/<testId>/<name>.json, private to the current test
+Every change is a locked read-modify-write followed by an atomic rename, so parallel workers never lose or corrupt an
+update. The run id comes from TEST_RUN_ID, which `startRun()` sets from globalSetup so that all workers inherit it.
+Without it the run and test scopes fail instead of mixing the records of every run in one namespace.
+*/
+
+
+export type StoreScope = 'global' | 'run' | 'test';
+
+export type StoreOptions = { scope?: StoreScope, name?: string };
+
+const DEFAULT_STORE_NAME = 'txn';
+
+export function getRuntimeDataFolder() {
+    return `${process.cwd()}${config.RUN_TIME_DATA_PATH}`;
+}
+
+export function getRunId() {
+    const runId = process.env.TEST_RUN_ID;
+    if (runId === undefined || runId === '') {
+        throw new Error('Runtime store: no run id, call runtimeStore.startRun() from globalSetup or set TEST_RUN_ID');
+    }
+    return runId;
+}
+
+async function getStoreFile(options?: StoreOptions) {
+    const name = options?.name ?? DEFAULT_STORE_NAME;
+    switch (options?.scope ?? 'run') {
+        case 'global':
+            return await getTxnFilePath(name);
+        case 'test': {
+            const testId = testContext.assertsJson?.testId;
+            if (testId === undefined) {
+                throw new Error(`Runtime store [${name}]: the test scope needs a running test, use the fixtures from fixtures.ts`);
+            }
+            return `${getRuntimeDataFolder()}/runs/${getRunId()}/tests/${testId}/${name}.json`;
+        }
+        default:
+            return `${getRuntimeDataFolder()}/runs/${getRunId()}/${name}.json`;
+    }
+}
+
+function readRecords(filePath: string): Record<string, any> {
+    let fs = require("fs");
+    if (!fs.existsSync(filePath)) return {};
+    const content = fs.readFileSync(filePath, 'utf-8');
+    return content.trim() === '' ? {} : JSON.parse(content);
+}
+
+// Applies the change to the records of the file under its lock and persists the result atomically
+async function updateRecords<T>(options: StoreOptions, change: (records: Record<string, any>) => T): Promise<T> {
+    const filePath = await getStoreFile(options);
+    const path = require("path");
+    let fs = require("fs");
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    return await withFileLock(filePath, async () => {
+        const records = readRecords(filePath);
+        const result = change(records);
+        await writeJsonDataAtomic(filePath, records);
+        return result;
+    });
+}
+
+function newestModification(folder: string): number {
+    let fs = require("fs");
+    const path = require("path");
+    let newest = fs.statSync(folder).mtimeMs;
+    for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+        const entryPath = path.join(folder, entry.name);
+        newest = Math.max(newest, entry.isDirectory() ? newestModification(entryPath) : fs.statSync(entryPath).mtimeMs);
+    }
+    return newest;
+}
+
+export default new class RuntimeStore {
+
+    // Creates the run namespace and exports its id to the workers, call it once from globalSetup (no test logger there)
+    startRun = async (runId?: string) => {
+        const id = runId ?? process.env.TEST_RUN_ID ?? `run_${new Date().toISOString().replace(/[-:]/g, '').replace('T', '_').substring(0, 15)}`;
+        process.env.TEST_RUN_ID = id;
+        await writeJsonDataAtomic(`${getRuntimeDataFolder()}/runs/${id}/run.json`, { runId: id, startedAt: new Date().toISOString() });
+        console.log(`Runtime store :: run ${id} started`);
+        return id;
+    }
+
+    get = async <T = any>(key: string, options?: StoreOptions): Promise<T> => {
+        return readRecords(await getStoreFile(options))[key];
+    }
+
+    getAll = async (options?: StoreOptions): Promise<Record<string, any>> => {
+        return readRecords(await getStoreFile(options));
+    }
+
+    set = async <T = any>(key: string, value: T, options?: StoreOptions) => {
+        await updateRecords(options ?? {}, (records) => records[key] = value);
+        await logger.info(`Runtime store :: ${options?.scope ?? 'run'}/${options?.name ?? DEFAULT_STORE_NAME} [${key}] set`);
+        return value;
+    }
+
+    // Shallow merges the fields into the record, creating it when missing, and returns the merged record
+    merge = async <T extends object = any>(key: string, fields: Partial<T>, options?: StoreOptions): Promise<T> => {
+        const merged = await updateRecords(options ?? {}, (records) => records[key] = { ...(records[key] ?? {}), ...fields });
+        await logger.info(`Runtime store :: ${options?.scope ?? 'run'}/${options?.name ?? DEFAULT_STORE_NAME} [${key}] merged ${Object.keys(fields).join(', ')}`);
+        return merged as T;
+    }
+
+    remove = async (key: string, options?: StoreOptions) => {
+        return await updateRecords(options ?? {}, (records) => {
+            const existed = key in records;
+            delete records[key];
+            return existed;
+        });
+    }
+
+    // Waits until another test (possibly in another worker) has stored the key, for consumers running in parallel with the producer
+    waitFor = async <T = any>(key: string, options?: StoreOptions & { timeout?: number, interval?: number }): Promise<T> => {
+        const timeout = options?.timeout ?? config.DEFAULT_WAIT_TIME;
+        const startTime = Date.now();
+        while (true) {
+            const value = await this.get<T>(key, options);
+            if (value !== undefined) return value;
+            if (Date.now() - startTime > timeout) {
+                throw new Error(`Runtime store :: [${key}] was not stored within ${timeout} ms`);
+            }
+            await new Promise(resolve => setTimeout(resolve, options?.interval ?? 1000));
+        }
+    }
+
+    // Deletes the run namespaces not modified within the retention period, the current run is always kept. Runs outside
+    // of a test as well, so it reports on the console
+    purgeRuns = async (options?: { olderThanHours?: number, dryRun?: boolean }) => {
+        let fs = require("fs");
+        const path = require("path");
+        const runsFolder = `${getRuntimeDataFolder()}/runs`;
+        if (!fs.existsSync(runsFolder)) return [];
+        const cutoff = Date.now() - (options?.olderThanHours ?? config.RUNTIME_STORE_RETENTION_HOURS) * 3600000;
+        const purged: string[] = [];
+        for (const entry of fs.readdirSync(runsFolder, { withFileTypes: true })) {
+            if (!entry.isDirectory() || entry.name === process.env.TEST_RUN_ID) continue;
+            const runFolder = path.join(runsFolder, entry.name);
+            if (newestModification(runFolder) >= cutoff) continue;
+            if (!options?.dryRun) fs.rmSync(runFolder, { recursive: true, force: true });
+            purged.push(entry.name);
+        }
+        console.log(`Runtime store :: ${options?.dryRun ? 'would purge' : 'purged'} ${purged.length} run(s) ${purged.join(', ')}`);
+        return purged;
+    }
+}
@@ -0,0 +1,84 @@
+import { APIRequestContext, Browser, BrowserContext, Page } from 'playwright';
+
+
+/*
+Registry of named browser sessions. Each session owns its own browser, context, pages and popup so a test can drive
+several users side by side (for example a requester and an approver in the same workflow). The session named
+'default' backs the exported `playwright` object in playwright.ts, so existing suites keep working unchanged.
+*/
+
+
+export const DEFAULT_SESSION = 'default';
+
+export type PlaywrightSession = {
+    name: string,
+    page: Page,
+    apiContext: APIRequestContext,
+    popup: Page,
+    newPage: Page,
+    context: BrowserContext,
+    browser: Browser
+}
+
+export default new class SessionManager {
+    private sessions = new Map<string, PlaywrightSession>();
+
+    // Returns the named session, creating an empty one on first use
+    get = (name: string = DEFAULT_SESSION) => {
+        if (!this.sessions.has(name)) {
+            this.sessions.set(name, {
+                name: name,
+                page: undefined as Page,
+                apiContext: undefined as APIRequestContext,
+                popup: undefined as Page,
+                newPage: undefined as Page,
+                context: undefined as BrowserContext,
+                browser: undefined as Browser
+            });
+        }
+        return this.sessions.get(name);
+    }
+
+    // Stores the given browser objects on the named session and returns it
+    register = (name: string, parts: Partial<Omit<PlaywrightSession, 'name'>>) => {
+        return Object.assign(this.get(name), parts);
+    }
+
+    has = (name: string) => {
+        return this.sessions.has(name);
+    }
+
+    names = () => {
+        return Array.from(this.sessions.keys());
+    }
+
+    // Closes the popup, context and browser of the named session and clears it from the registry
+    close = async (name: string = DEFAULT_SESSION) => {
+        if (!this.sessions.has(name)) return;
+        const session = this.sessions.get(name);
+        if (session.popup !== undefined && !session.popup.isClosed()) {
+            await session.popup.close();
+        }
+        if (session.apiContext !== undefined) {
+            await session.apiContext.dispose();
+        }
+        if (session.context !== undefined) {
+            await session.context.close();
+        }
+        if (session.browser !== undefined) {
+            await session.browser.close();
+        }
+        if (name === DEFAULT_SESSION) {
+            // The default session object is shared with the exported `playwright` object, so reset it in place
+            Object.assign(session, { page: undefined, apiContext: undefined, popup: undefined, newPage: undefined, context: undefined, browser: undefined });
+        } else {
+            this.sessions.delete(name);
+        }
+    }
+
+    closeAll = async () => {
+        for (const name of this.names()) {
+            await this.close(name);
+        }
+    }
+}
@@ -0,0 +1,161 @@
+import { Locator } from 'playwright';
+
+
+/*
+Column name aware view of a rendered table. The DOM is read once into a rectangular grid where cells spanning several
+rows or columns (rowspan/colspan) are repeated in every slot they cover. Multi-row headers are flattened into one name
+per column by joining the distinct labels from top to bottom ("Member / ID"), and a column can be addressed either by
+that full name or by its last label when it is unique.
+*/
+
+
+export type TableRecord = Record<string, string>;
+
+export type TableGrid = { headerRows: string[][], bodyRows: string[][], bodyRowKeys?: string[] };
+
+export type RowCriteria = Record<string, string | RegExp>;
+
+/*
+Reads the header and body rows of the table (or of the table containing the located element) into a grid. With
+rowKeyAttributes the key of each body row, the value of the first of those attributes it carries, is read as well.
+*/
+export async function readTableGrid(table: Locator, options?: { headerRowCount?: number, rowKeyAttributes?: string[] }): Promise<TableGrid> {
+    return await table.first().evaluate((root: HTMLElement, { headerRowCount, rowKeyAttributes }: { headerRowCount: number, rowKeyAttributes: string[] }) => {
+        const tableElement = (root.tagName === 'TABLE' ? root : (root.closest('table') ?? root)) as HTMLTableElement;
+        const rows = Array.from(tableElement.querySelectorAll('tr')).filter((tr) => tr.closest('table') === tableElement || tableElement.tagName !== 'TABLE');
+        const toGrid = (trs: HTMLTableRowElement[]) => {
+            const grid: string[][] = trs.map(() => []);
+            trs.forEach((tr, r) => {
+                let c = 0;
+                Array.from(tr.cells).forEach((cell) => {
+                    while (grid[r][c] !== undefined) c++;
+                    const text = (cell.innerText ?? cell.textContent ?? '').replace(/\s+/g, ' ').trim();
+                    for (let i = 0; i < Math.max(1, cell.rowSpan) && r + i < trs.length; i++) {
+                        for (let j = 0; j < Math.max(1, cell.colSpan); j++) {
+                            grid[r + i][c + j] = text;
+                        }
+                    }
+                    c += Math.max(1, cell.colSpan);
+                });
+            });
+            return grid.map((row) => Array.from(row, (value) => value ?? ''));
+        };
+        let headerCount = headerRowCount;
+        if (headerCount < 0) {
+            headerCount = 0;
+            while (headerCount < rows.length && (rows[headerCount].closest('thead') !== null
+                || (rows[headerCount].cells.length > 0 && Array.from(rows[headerCount].cells).every((cell) => cell.tagName === 'TH')))) {
+                headerCount++;
+            }
+        }
+        const bodyRows = rows.slice(headerCount).filter((tr) => tr.cells.length > 0);
+        return {
+            headerRows: toGrid(rows.slice(0, headerCount)),
+            bodyRows: toGrid(bodyRows),
+            bodyRowKeys: rowKeyAttributes.length === 0 ? undefined
+                : bodyRows.map((tr) => rowKeyAttributes.map((name) => tr.getAttribute(name)).find((value) => value !== null) ?? undefined)
+        };
+    }, { headerRowCount: options?.headerRowCount ?? -1, rowKeyAttributes: options?.rowKeyAttributes ?? [] });
+}
+
+export class TableModel {
+    readonly headers: string[];
+    readonly rows: string[][];
+    protected leafHeaders: string[];
+
+    constructor(grid: TableGrid) {
+        const columnCount = Math.max(0, ...grid.headerRows.map((row) => row.length), ...grid.bodyRows.map((row) => row.length));
+        const headers: string[] = [];
+        const nameCounts = new Map<string, number>();
+        this.leafHeaders = [];
+        for (let col = 0; col < columnCount; col++) {
+            const labels: string[] = [];
+            for (const headerRow of grid.headerRows) {
+                const label = headerRow[col] ?? '';
+                if (label !== '' && labels[labels.length - 1] !== label) labels.push(label);
+            }
+            const baseName = labels.length > 0 ? labels.join(' / ') : `Column ${col + 1}`;
+            // Duplicate names get a counter so every record key stays unique
+            nameCounts.set(baseName, (nameCounts.get(baseName) ?? 0) + 1);
+            headers.push(nameCounts.get(baseName) > 1 ? `${baseName} (${nameCounts.get(baseName)})` : baseName);
+            this.leafHeaders.push(labels.length > 0 ? labels[labels.length - 1] : baseName);
+        }
+        this.headers = headers;
+        this.rows = grid.bodyRows.map((row) => Array.from({ length: columnCount }, (v, col) => row[col] ?? ''));
+    }
+
+    getHeaders() {
+        return [...this.headers];
+    }
+
+    getRowCount() {
+        return this.rows.length;
+    }
+
+    // Index of the column by full header name, or by its last header label when that label is unique
+    getColumnIndex(columnName: string, exactMatch: boolean = false) {
+        const normalize = (value: string) => exactMatch ? value.trim() : value.trim().toLowerCase();
+        const name = normalize(columnName);
+        const index = this.headers.findIndex((header) => normalize(header) === name);
+        if (index >= 0) return index;
+        const leafMatches = this.leafHeaders.map((header, i) => normalize(header) === name ? i : -1).filter((i) => i >= 0);
+        return leafMatches.length === 1 ? leafMatches[0] : -1;
+    }
+
+    protected requireColumnIndex(columnName: string) {
+        const index = this.getColumnIndex(columnName);
+        if (index < 0) {
+            throw new Error(`Column [${columnName}] not found, available columns: ${this.headers.join(', ')}`);
+        }
+        return index;
+    }
+
+    getRow<T extends TableRecord = TableRecord>(rowIndex: number): T {
+        const row = this.rows[rowIndex];
+        if (row === undefined) return undefined;
+        const record: TableRecord = {};
+        this.headers.forEach((header, col) => record[header] = row[col]);
+        return record as T;
+    }
+
+    getRows<T extends TableRecord = TableRecord>(): T[] {
+        return this.rows.map((row, index) => this.getRow<T>(index));
+    }
+
+    getCell(rowIndex: number, columnName: string) {
+        return this.rows[rowIndex]?.[this.requireColumnIndex(columnName)];
+    }
+
+    getColumn(columnName: string) {
+        const col = this.requireColumnIndex(columnName);
+        return this.rows.map((row) => row[col]);
+    }
+
+    protected rowMatches(row: string[], criteria: RowCriteria, exactMatch: boolean) {
+        return Object.keys(criteria).every((columnName) => {
+            const value = row[this.requireColumnIndex(columnName)];
+            const expected = criteria[columnName];
+            if (expected instanceof RegExp) return expected.test(value);
+            return exactMatch ? value.trim() === expected.trim() : value.trim().toLowerCase().includes(expected.trim().toLowerCase());
+        });
+    }
+
+    // Rows whose cells match every criterion, e.g. findRows({ "Case ID": "123", Status: /open/i })
+    findRows<T extends TableRecord = TableRecord>(criteria: RowCriteria, options?: { exactMatch?: boolean }): { index: number, row: T }[] {
+        const exactMatch = options?.exactMatch ?? false;
+        const matches: { index: number, row: T }[] = [];
+        this.rows.forEach((row, index) => {
+            if (this.rowMatches(row, criteria, exactMatch)) matches.push({ index: index, row: this.getRow<T>(index) });
+        });
+        return matches;
+    }
+
+    findRow<T extends TableRecord = TableRecord>(criteria: RowCriteria, options?: { exactMatch?: boolean }): T {
+        return this.findRows<T>(criteria, options)[0]?.row;
+    }
+
+    findRowIndex(criteria: RowCriteria, options?: { exactMatch?: boolean }) {
+        const match = this.findRows(criteria, options)[0];
+        return match === undefined ? -1 : match.index;
+    }
+}
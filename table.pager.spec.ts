@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import { Locator, Page } from 'playwright';
+import { PagerConfig, createRowDeduplicator, moveToNextPage, preparePager } from './table.pager';
+
+
+test.describe('createRowDeduplicator', () => {
+    test('keeps every row of a paginated table', async () => {
+        const isNewRow = createRowDeduplicator({ nextButton: '.next' });
+        expect(isNewRow([undefined, undefined], ['A', 'A'])).toEqual([true, true]);
+        expect(isNewRow([undefined, undefined], ['A', 'A'])).toEqual([true, true]);
+    });
+
+    test('skips keyed rows read at an earlier scroll position and keeps identical rows with other keys', async () => {
+        const isNewRow = createRowDeduplicator({ scrollContainer: '.viewport' });
+        expect(isNewRow(['1', '2', '3'], ['Paid', 'Paid', 'Open'])).toEqual([true, true, true]);
+        expect(isNewRow(['3', '4', '5'], ['Open', 'Paid', 'Paid'])).toEqual([false, true, true]);
+    });
+
+    test('skips the rows repeating the end of the previous scroll position when rows carry no key', async () => {
+        const isNewRow = createRowDeduplicator({ scrollContainer: '.viewport' });
+        const noKeys = [undefined, undefined, undefined];
+        expect(isNewRow(noKeys, ['A', 'B', 'B'])).toEqual([true, true, true]);
+        expect(isNewRow(noKeys, ['B', 'B', 'B'])).toEqual([false, false, true]);
+        expect(isNewRow(noKeys, ['B', 'B', 'B'])).toEqual([false, false, false]);
+    });
+});
+
+// Grid of two rendered rows at a time, paged by the .first and .next buttons or scrolled in .viewport one row per pixel
+function fakeGrid(data: string[]) {
+    let offset = 0;
+    const viewport = {
+        clientHeight: 2,
+        get scrollTop() { return offset; },
+        set scrollTop(value: number) { offset = Math.max(0, Math.min(value, data.length - 2)); }
+    };
+    const button = (enabled: () => boolean, click: () => void) => ({
+        count: async () => 1,
+        isVisible: async () => true,
+        isEnabled: async () => enabled(),
+        getAttribute: async (): Promise<string> => null,
+        click: async () => click()
+    });
+    const controls: Record<string, any> = {
+        '.first': button(() => offset > 0, () => offset = 0),
+        '.next': button(() => offset + 2 < data.length, () => offset += 2),
+        '.viewport': { evaluate: async (action: (element: any, arg: any) => any, arg: any) => action(viewport, arg) }
+    };
+    const page = {
+        locator: (selector: string) => ({ first: () => controls[selector] }),
+        waitForTimeout: (timeout: number) => new Promise((resolve) => setTimeout(resolve, timeout))
+    } as unknown as Page;
+    const rows = {
+        allInnerTexts: async () => data.slice(offset, offset + 2),
+        count: async () => data.slice(offset, offset + 2).length
+    } as unknown as Locator;
+    return { page, rows };
+}
+
+// Pages to the row like UiTable.findRowAcrossPages, leaving the grid on the page of the match
+async function findPageOf(grid: { page: Page, rows: Locator }, pager: PagerConfig, value: string) {
+    await preparePager(grid.page, grid.rows, pager);
+    for (let pageIndex = 0; ; pageIndex++) {
+        if ((await grid.rows.allInnerTexts()).includes(value)) return pageIndex;
+        if (!(await moveToNextPage(grid.page, grid.rows, pager))) return -1;
+    }
+}
+
+test.describe('preparePager', () => {
+    const data = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+    test('starts a paginated lookup on the first page after a lookup left the table on a later one', async () => {
+        const grid = fakeGrid(data);
+        const pager = { firstButton: '.first', nextButton: '.next', settleTimeout: 1000 };
+        expect(await findPageOf(grid, pager, 'E')).toBe(2);
+        expect(await findPageOf(grid, pager, 'B')).toBe(0);
+        expect(await findPageOf(grid, pager, 'C')).toBe(1);
+    });
+
+    test('scrolls a virtual grid back to the top after a lookup left it scrolled down', async () => {
+        const grid = fakeGrid(data);
+        const pager = { scrollContainer: '.viewport', settleTimeout: 1000 };
+        expect(await findPageOf(grid, pager, 'F')).toBe(2);
+        expect(await findPageOf(grid, pager, 'A')).toBe(0);
+    });
+});
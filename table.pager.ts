@@ -0,0 +1,190 @@
+import { Locator, Page } from 'playwright';
+import config from './config';
+import logger from './logger';
+
+
+/*
+Pager configuration of a UiTable whose data does not fit on one rendered page. A paginated grid is walked by clicking
+`nextButton` until it is missing or disabled; a virtual scrolling grid is walked by scrolling `scrollContainer` until
+its scroll position stops moving. Every walk starts from the first page: `firstButton` is clicked, or the scroll container
+is scrolled back to the top, as a lookup leaves the table on the page of its match. Without firstButton a paginated grid
+is read from the page it shows. After every move the pager waits until the rendered rows differ from the ones seen
+before, so the caller never reads the same page twice. Scroll positions overlap, createRowDeduplicator tells which of
+the rendered rows have not been read before.
+*/
+
+
+export type PagerConfig = {
+    nextButton?: string,
+    firstButton?: string,
+    pageSizeSelector?: string,
+    pageSize?: string,
+    scrollContainer?: string,
+    scrollStep?: number,
+    maxPages?: number,
+    settleTimeout?: number,
+    loadingIndicator?: string,
+    rowKeyAttribute?: string
+}
+
+const DEFAULT_MAX_PAGES = 500;
+
+const SETTLE_INTERVAL = 250;
+
+// Attributes virtual grids put on their rows to identify them, used when the pager names no rowKeyAttribute
+const ROW_KEY_ATTRIBUTES = ['aria-rowindex', 'data-rowindex', 'data-row-index', 'row-index', 'row-id', 'data-key', 'data-id'];
+
+export function getMaxPages(pager: PagerConfig) {
+    return pager.maxPages ?? DEFAULT_MAX_PAGES;
+}
+
+// Text of the rendered rows, used to detect that a page change has actually been rendered
+async function getRowsSignature(rows: Locator) {
+    return (await rows.allInnerTexts()).join('\n');
+}
+
+async function waitForRowsToChange(page: Page, rows: Locator, previousSignature: string, timeout: number) {
+    const startTime = Date.now();
+    while (Date.now() - startTime < timeout) {
+        if (await getRowsSignature(rows) !== previousSignature) return true;
+        await page.waitForTimeout(100);
+    }
+    return false;
+}
+
+// Waits until the loading indicator, if configured, is gone and the number of rows holds still
+async function waitForRowsToSettle(page: Page, rows: Locator, pager: PagerConfig, previousSignature: string, timeout: number) {
+    const startTime = Date.now();
+    if (pager.loadingIndicator !== undefined) {
+        await page.locator(pager.loadingIndicator).first().waitFor({ state: 'hidden', timeout: timeout });
+    }
+    // The new page size renders the same rows when all of them fitted on the page already, so no change is required
+    await waitForRowsToChange(page, rows, previousSignature, Math.min(timeout, 2000));
+    let count = await rows.count();
+    while (Date.now() - startTime < timeout) {
+        await page.waitForTimeout(SETTLE_INTERVAL);
+        const current = await rows.count();
+        if (current === count) return true;
+        count = current;
+    }
+    return false;
+}
+
+// A pager button which is missing, hidden or disabled, natively or by aria-disabled or a disabled class, cannot be used
+async function isButtonEnabled(button: Locator) {
+    if (await button.count() === 0 || !(await button.isVisible()) || !(await button.isEnabled())) return false;
+    if (`${await button.getAttribute('aria-disabled')}`.toLowerCase() === 'true') return false;
+    return !`${await button.getAttribute('class') ?? ''}`.toLowerCase().split(/\s+/).includes('disabled');
+}
+
+// Moves back to the first page or the top of the scroll container; a disabled first button means the first page is shown
+export async function moveToFirstPage(page: Page, rows: Locator, pager: PagerConfig) {
+    const settleTimeout = pager.settleTimeout ?? config.TABLE_LOAD_TIMEOUT;
+    const previousSignature = await getRowsSignature(rows);
+    if (pager.scrollContainer !== undefined) {
+        const moved = await page.locator(pager.scrollContainer).first().evaluate((element: HTMLElement) => {
+            const before = element.scrollTop;
+            element.scrollTop = 0;
+            return before > 0;
+        });
+        if (!moved) return false;
+    } else if (pager.firstButton !== undefined) {
+        const first = page.locator(pager.firstButton).first();
+        if (!(await isButtonEnabled(first))) return false;
+        await first.click();
+    } else {
+        return false;
+    }
+    if (!(await waitForRowsToSettle(page, rows, pager, previousSignature, settleTimeout))) {
+        await logger.warn(`Pager :: rows still changing ${settleTimeout} ms after moving to the first page`);
+    }
+    return true;
+}
+
+// Applies the page size selection, if configured, and moves to the first page before it is read
+export async function preparePager(page: Page, rows: Locator, pager: PagerConfig) {
+    if (pager.pageSizeSelector !== undefined && pager.pageSize !== undefined) {
+        const settleTimeout = pager.settleTimeout ?? config.TABLE_LOAD_TIMEOUT;
+        const previousSignature = await getRowsSignature(rows);
+        await page.locator(pager.pageSizeSelector).first().selectOption(pager.pageSize);
+        if (await waitForRowsToSettle(page, rows, pager, previousSignature, settleTimeout)) {
+            await logger.info(`Pager :: page size set to ${pager.pageSize}`);
+        } else {
+            await logger.warn(`Pager :: rows still changing ${settleTimeout} ms after setting the page size to ${pager.pageSize}`);
+        }
+    }
+    if (await moveToFirstPage(page, rows, pager)) await logger.info('Pager :: moved to the first page');
+}
+
+// Moves to the next page or scroll position, returns false when the end of the data has been reached
+export async function moveToNextPage(page: Page, rows: Locator, pager: PagerConfig) {
+    const settleTimeout = pager.settleTimeout ?? config.TABLE_LOAD_TIMEOUT;
+    const previousSignature = await getRowsSignature(rows);
+    if (pager.scrollContainer !== undefined) {
+        const container = page.locator(pager.scrollContainer).first();
+        const moved = await container.evaluate((element: HTMLElement, step: number) => {
+            const before = element.scrollTop;
+            element.scrollTop = before + (step ?? element.clientHeight);
+            return element.scrollTop > before;
+        }, pager.scrollStep);
+        if (!moved) return false;
+        // A scroll step smaller than a row may legitimately render the same rows, so this wait is best effort
+        await waitForRowsToChange(page, rows, previousSignature, Math.min(settleTimeout, 2000));
+        return true;
+    }
+    if (pager.nextButton !== undefined) {
+        const next = page.locator(pager.nextButton).first();
+        if (!(await isButtonEnabled(next))) return false;
+        await next.click();
+        if (!(await waitForRowsToChange(page, rows, previousSignature, settleTimeout))) {
+            await logger.info(`Pager :: rows did not change within ${settleTimeout} ms after clicking next, treating it as the last page`);
+            return false;
+        }
+        return true;
+    }
+    return false;
+}
+
+export function getRowKeyAttributes(pager: PagerConfig) {
+    return pager?.rowKeyAttribute === undefined ? ROW_KEY_ATTRIBUTES : [pager.rowKeyAttribute];
+}
+
+// Key of each row: the value of the first key attribute it carries, undefined for a row without one
+export async function getRowKeys(rows: Locator, pager: PagerConfig): Promise<string[]> {
+    const keys = await rows.evaluateAll((elements: Element[], attributes: string[]) =>
+        elements.map((element) => attributes.map((name) => element.getAttribute(name)).find((value) => value !== null) ?? null), getRowKeyAttributes(pager));
+    return keys.map((key) => key ?? undefined);
+}
+
+// Number of rows at the start of the current scroll position which repeat the end of the previous one
+function getOverlap(previousRows: string[], rows: string[]) {
+    for (let size = Math.min(previousRows.length, rows.length); size > 0; size--) {
+        const tail = previousRows.slice(previousRows.length - size);
+        if (tail.every((row, index) => row === rows[index])) return size;
+    }
+    return 0;
+}
+
+/*
+Returns a filter telling per rendered row whether it is read for the first time. Only the scroll positions of a virtual
+grid overlap, rows of a paginated table are always new. Rows are recognised by their key (see getRowKeys), so identical
+rows are kept; a grid without row keys is taken to render a contiguous window of rows and the rows repeating the end of
+the previous scroll position are skipped.
+*/
+export function createRowDeduplicator(pager: PagerConfig) {
+    const seenKeys = new Set<string>();
+    let previousRows: string[] = [];
+    return (keys: string[], rows: string[]): boolean[] => {
+        if (pager?.scrollContainer === undefined) return rows.map(() => true);
+        let isNew: boolean[];
+        if (rows.length > 0 && keys?.length === rows.length && keys.every((key) => key !== undefined)) {
+            isNew = keys.map((key) => !seenKeys.has(key));
+            keys.forEach((key) => seenKeys.add(key));
+        } else {
+            const overlap = getOverlap(previousRows, rows);
+            isNew = rows.map((row, index) => index >= overlap);
+        }
+        previousRows = rows;
+        return isNew;
+    };
+}
@@ -0,0 +1,183 @@
+import { TableGrid, TableModel, TableRecord } from './table.model';
+import { readCsv, readSheet, writeCsv, writeSheet } from './excel.utils';
+import { writeJsonData } from './file.utils';
+
+
+/*
+Normalized snapshot of a rendered table and its comparison with expected data kept in Excel, CSV or JSON files.
+Columns are aligned by header name, so the expected sheet only needs the columns it wants to check and in any order.
+A mismatch is reported per cell with its row and column, which is what ends up in the soft assertion results.
+*/
+
+
+export type TableSnapshot = {
+    headers: string[],
+    rows: string[][]
+}
+
+export type TableCompareOptions = {
+    ignoreColumns?: string[],
+    ignoreRowOrder?: boolean,
+    regexCells?: boolean,
+    caseSensitive?: boolean,
+    ignoreExtraColumns?: boolean
+}
+
+export type CellMismatch = { row: number, column: string, actual: string, expected: string };
+
+export type TableComparison = {
+    passed: boolean,
+    missingColumns: string[],
+    extraColumns: string[],
+    cellMismatches: CellMismatch[],
+    missingRows: { row: number, values: TableRecord }[],
+    unexpectedRows: { row: number, values: TableRecord }[]
+}
+
+export function snapshotFromGrid(grid: TableGrid): TableSnapshot {
+    const model = new TableModel(grid);
+    return { headers: model.getHeaders(), rows: model.rows.map((row) => [...row]) };
+}
+
+export function snapshotFromRecords(records: TableRecord[]): TableSnapshot {
+    const headers: string[] = [];
+    for (const record of records) {
+        for (const key of Object.keys(record)) {
+            if (!headers.includes(key)) headers.push(key);
+        }
+    }
+    return { headers, rows: records.map((record) => headers.map((header) => record[header] ?? '')) };
+}
+
+export function snapshotToRecords(snapshot: TableSnapshot): TableRecord[] {
+    return snapshot.rows.map((row) => {
+        const record: TableRecord = {};
+        snapshot.headers.forEach((header, col) => record[header] = row[col] ?? '');
+        return record;
+    });
+}
+
+function getExtension(filePath: string) {
+    const path = require("path");
+    return path.extname(filePath).toLowerCase().replace('.', '');
+}
+
+// Writes the snapshot as csv, json (records) or xlsx, picked from the file extension
+export async function exportSnapshot(snapshot: TableSnapshot, filePath: string, options?: { sheetName?: string }) {
+    switch (getExtension(filePath)) {
+        case 'csv':
+            await writeCsv(filePath, [snapshot.headers, ...snapshot.rows]);
+            break;
+        case 'json':
+            await writeJsonData(filePath, snapshotToRecords(snapshot));
+            break;
+        case 'xlsx':
+            await writeSheet(filePath, options?.sheetName ?? 'Table', [snapshot.headers, ...snapshot.rows]);
+            break;
+        default:
+            throw new Error(`Unsupported snapshot export format [${filePath}], use .csv, .json or .xlsx`);
+    }
+    return filePath;
+}
+
+// Loads expected data whose first row (or the keys of the json records) holds the column names
+export async function loadSnapshot(filePath: string, options?: { sheetName?: string }): Promise<TableSnapshot> {
+    switch (getExtension(filePath)) {
+        case 'csv': {
+            const [headers, ...rows] = await readCsv(filePath);
+            return { headers: headers ?? [], rows };
+        }
+        case 'json': {
+            let fs = require("fs");
+            return snapshotFromRecords(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+        }
+        case 'xlsx':
+        case 'xls': {
+            const [headers, ...rows] = await readSheet(filePath, options?.sheetName);
+            return { headers: headers ?? [], rows };
+        }
+        default:
+            throw new Error(`Unsupported expected data format [${filePath}], use .csv, .json, .xls or .xlsx`);
+    }
+}
+
+function normalizeCell(value: string, caseSensitive: boolean) {
+    const text = `${value ?? ''}`.replace(/\s+/g, ' ').trim();
+    return caseSensitive ? text : text.toLowerCase();
+}
+
+// An expected cell written as /pattern/flags is matched as a regular expression when regexCells is on
+function cellMatches(actual: string, expected: string, options: TableCompareOptions) {
+    const regex = options.regexCells ? /^\/(.*)\/([a-z]*)$/.exec(`${expected ?? ''}`.trim()) : null;
+    if (regex !== null) {
+        return new RegExp(regex[1], regex[2]).test(`${actual ?? ''}`.trim());
+    }
+    return normalizeCell(actual, options.caseSensitive ?? false) === normalizeCell(expected, options.caseSensitive ?? false);
+}
+
+export function compareSnapshots(actual: TableSnapshot, expected: TableSnapshot, options: TableCompareOptions = {}): TableComparison {
+    const normalizeHeader = (header: string) => header.replace(/\s+/g, ' ').trim().toLowerCase();
+    const ignored = (options.ignoreColumns ?? []).map(normalizeHeader);
+    const columns = expected.headers
+        .map((header, expectedCol) => ({ header, expectedCol, actualCol: actual.headers.findIndex((h) => normalizeHeader(h) === normalizeHeader(header)) }))
+        .filter((column) => !ignored.includes(normalizeHeader(column.header)));
+    const missingColumns = columns.filter((column) => column.actualCol < 0).map((column) => column.header);
+    const compared = columns.filter((column) => column.actualCol >= 0);
+    const extraColumns = actual.headers.filter((h) => !expected.headers.some((e) => normalizeHeader(e) === normalizeHeader(h)) && !ignored.includes(normalizeHeader(h)));
+
+    const toRecord = (row: string[], useActual: boolean) => {
+        const record: TableRecord = {};
+        compared.forEach((column) => record[column.header] = row[useActual ? column.actualCol : column.expectedCol] ?? '');
+        return record;
+    };
+    const diffCells = (actualRow: string[], expectedRow: string[], rowIndex: number) => compared
+        .filter((column) => !cellMatches(actualRow[column.actualCol], expectedRow[column.expectedCol], options))
+        .map((column) => ({ row: rowIndex, column: column.header, actual: actualRow[column.actualCol] ?? '', expected: expectedRow[column.expectedCol] ?? '' }));
+
+    const cellMismatches: CellMismatch[] = [];
+    const missingRows: { row: number, values: TableRecord }[] = [];
+    const unexpectedRows: { row: number, values: TableRecord }[] = [];
+    if (!options.ignoreRowOrder) {
+        const length = Math.max(actual.rows.length, expected.rows.length);
+        for (let row = 0; row < length; row++) {
+            if (row >= actual.rows.length) missingRows.push({ row, values: toRecord(expected.rows[row], false) });
+            else if (row >= expected.rows.length) unexpectedRows.push({ row, values: toRecord(actual.rows[row], true) });
+            else cellMismatches.push(...diffCells(actual.rows[row], expected.rows[row], row));
+        }
+    } else {
+        // Exact matches are paired first, the leftovers are paired by the most equal cells to report cell differences
+        const unmatchedActual = actual.rows.map((row, index) => index);
+        const leftovers: number[] = [];
+        expected.rows.forEach((expectedRow, expectedIndex) => {
+            const position = unmatchedActual.findIndex((actualIndex) => diffCells(actual.rows[actualIndex], expectedRow, expectedIndex).length === 0);
+            if (position >= 0) unmatchedActual.splice(position, 1);
+            else leftovers.push(expectedIndex);
+        });
+        for (const expectedIndex of leftovers) {
+            if (unmatchedActual.length === 0) {
+                missingRows.push({ row: expectedIndex, values: toRecord(expected.rows[expectedIndex], false) });
+                continue;
+            }
+            let best = 0;
+            let bestDiff = diffCells(actual.rows[unmatchedActual[0]], expected.rows[expectedIndex], expectedIndex);
+            unmatchedActual.forEach((actualIndex, position) => {
+                const diff = diffCells(actual.rows[actualIndex], expected.rows[expectedIndex], expectedIndex);
+                if (diff.length < bestDiff.length) {
+                    best = position;
+                    bestDiff = diff;
+                }
+            });
+            if (bestDiff.length === compared.length && compared.length > 0) {
+                missingRows.push({ row: expectedIndex, values: toRecord(expected.rows[expectedIndex], false) });
+            } else {
+                cellMismatches.push(...bestDiff);
+                unmatchedActual.splice(best, 1);
+            }
+        }
+        unmatchedActual.forEach((actualIndex) => unexpectedRows.push({ row: actualIndex, values: toRecord(actual.rows[actualIndex], true) }));
+    }
+    const extraColumnsAllowed = options.ignoreExtraColumns ?? true;
+    const passed = missingColumns.length === 0 && cellMismatches.length === 0 && missingRows.length === 0 && unexpectedRows.length === 0
+        && (extraColumnsAllowed || extraColumns.length === 0);
+    return { passed, missingColumns, extraColumns, cellMismatches, missingRows, unexpectedRows };
+}
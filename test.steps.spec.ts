@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+import testContext from './testContext';
+import { beginAssertScope, endAssertScope, recordSoftFailure } from './assert.scope';
+import { step } from './test.steps';
+
+
+function delay(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+test.describe('step', () => {
+    test.beforeEach(async ({}, testInfo) => {
+        await beginAssertScope({ testId: testInfo.testId, title: testInfo.title, runtimeStorageFile: testInfo.outputPath('asserts.json') });
+    });
+
+    test.afterEach(async () => {
+        await endAssertScope({ throwOnSoftFailures: false });
+    });
+
+    test('tags and counts the soft failures of sibling steps run in parallel on their own step', async () => {
+        await step('Checkout', async () => {
+            await Promise.all([
+                step('Cart', async () => {
+                    await delay(50);
+                    await recordSoftFailure({ softEquals: 'Failed', message: 'cart total' });
+                }),
+                step('Address', async () => {
+                    await recordSoftFailure({ softEquals: 'Failed', message: 'zip code' });
+                    await delay(100);
+                    await recordSoftFailure({ softEquals: 'Failed', message: 'city' });
+                }),
+                step('Payment', async () => await delay(80))
+            ]);
+        });
+        const steps = testContext.assertsJson.steps;
+        const [cart, address, payment] = steps[0].children;
+        expect(testContext.assertsJson.soft.map((record: any) => [record.message, record.step])).toEqual([
+            ['zip code', 'Checkout > Address'],
+            ['cart total', 'Checkout > Cart'],
+            ['city', 'Checkout > Address']
+        ]);
+        expect([steps[0].softFailures, cart.softFailures, address.softFailures, payment.softFailures]).toEqual([3, 1, 2, 0]);
+        expect([steps[0].status, cart.status, address.status, payment.status]).toEqual(['failed', 'failed', 'failed', 'passed']);
+    });
+
+    test('records a failure outside of any step without a step', async () => {
+        await step('Login', async () => undefined);
+        await recordSoftFailure({ softEquals: 'Failed', message: 'banner' });
+        expect(testContext.assertsJson.soft[0].step).toBeUndefined();
+        expect(testContext.assertsJson.steps[0].softFailures).toBe(0);
+    });
+});
@@ -0,0 +1,99 @@
+import testContext from './testContext';
+import logger, { redactText } from './logger';
+import { persistAsserts } from './assert.scope';
+
+
+/*
+Business level steps of a test:
+
+    await step('Create auth', async () => {
+        await step('Fill member details', async () => { ... });
+        await step('Submit', async () => { ... });
+    });
+
+Each step records its start, duration and status in a tree kept in testContext.assertsJson.steps (persisted with the
+assertion results), shows up as a playwright test.step in the HTML report and trace when it runs inside a test, and is
+the step that log lines and soft/hard assertion records of its body are tagged with ("Create auth > Submit").
+A step fails when its body throws or when soft assertions failed inside it; the error is always rethrown.
+*/
+
+
+export type StepStatus = 'running' | 'passed' | 'failed';
+
+export type StepNode = {
+    title: string,
+    path: string,
+    status: StepStatus,
+    startedAt: string,
+    endedAt?: string,
+    durationMs?: number,
+    error?: string,
+    softFailures: number,
+    children: StepNode[]
+}
+
+export function getCurrentStep() {
+    const steps = testContext.activeSteps.getStore();
+    return steps === undefined ? undefined : steps[steps.length - 1];
+}
+
+// playwright's test.step only works while a test is running, e.g. not in globalSetup or a plain node script
+function getPlaywrightStep(): (title: string, body: () => Promise<any>) => Promise<any> {
+    try {
+        const { test } = require('@playwright/test');
+        test.info();
+        return (title, body) => test.step(title, body);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+export async function step<T>(title: string, body: () => Promise<T>): Promise<T> {
+    const parent = getCurrentStep();
+    const node: StepNode = {
+        title: title,
+        path: parent === undefined ? title : `${parent.path} > ${title}`,
+        status: 'running',
+        startedAt: new Date().toISOString(),
+        softFailures: 0,
+        children: []
+    };
+    if (parent !== undefined) {
+        parent.children.push(node);
+    } else if (testContext.assertsJson !== undefined) {
+        if (testContext.assertsJson.steps === undefined) testContext.assertsJson.steps = [];
+        testContext.assertsJson.steps.push(node);
+    }
+    // recordSoftFailure counts the soft failures of the body on the node and its ancestors
+    const run = async () => await testContext.activeSteps.run([...(testContext.activeSteps.getStore() ?? []), node], async () => {
+        await logger.info(`Step started: ${node.path}`);
+        try {
+            const result = await body();
+            node.status = node.softFailures > 0 ? 'failed' : 'passed';
+            return result;
+        } catch (error) {
+            node.status = 'failed';
+            node.error = redactText(`${error?.name}: ${error?.message?.split('\n')[0]}`);
+            throw error;
+        } finally {
+            node.endedAt = new Date().toISOString();
+            node.durationMs = new Date(node.endedAt).getTime() - new Date(node.startedAt).getTime();
+            await logger.info(`Step ${node.status}: ${node.path} (${node.durationMs} ms${node.softFailures > 0 ? `, ${node.softFailures} soft failure(s)` : ''})`);
+            await persistAsserts();
+        }
+    });
+    const playwrightStep = getPlaywrightStep();
+    return playwrightStep === undefined ? await run() : await playwrightStep(title, run);
+}
+
+// Indented text view of the step tree, e.g. for the end of the test log
+export function renderStepTree(steps: StepNode[], indent: string = ''): string {
+    return (steps ?? []).map((node) => {
+        const mark = node.status === 'passed' ? '[PASS]' : node.status === 'failed' ? '[FAIL]' : '[....]';
+        const details = [`${node.durationMs ?? '-'} ms`];
+        if (node.softFailures > 0) details.push(`${node.softFailures} soft failure(s)`);
+        if (node.error !== undefined) details.push(node.error);
+        const line = `${indent}${mark} ${node.title} (${details.join(', ')})`;
+        return node.children.length === 0 ? line : `${line}\n${renderStepTree(node.children, `${indent}    `)}`;
+    }).join('\n');
+}
@@ -1,11 +1,23 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { Logger } from "winston";
+import { StepNode } from "./test.steps";
 
 const testCotext = {
     //@ts-ignore
     logger: undefined as Logger,
     runtimeStorageFile: undefined as string,
     assertsJson: undefined as any,
-    runtimeLoggerFile: undefined as string
+    runtimeLoggerFile: undefined as string,
+    // Session of the running action, attached to every log line of the test
+    logContext: { session: undefined as string },
+    // Steps running in the current async context, outermost first, so steps run side by side each see their own
+    activeSteps: new AsyncLocalStorage<StepNode[]>()
+}
+
+// Path of the innermost running step ("Create auth > Submit"), which log lines and failure records are tagged with
+export function getCurrentStepPath() {
+    const steps = testCotext.activeSteps.getStore();
+    return steps === undefined || steps.length === 0 ? undefined : steps[steps.length - 1].path;
 }
 export default testCotext;
     
@@ -0,0 +1,51 @@
+import { test, expect } from '@playwright/test';
+import { UiAssert } from './ui.assert';
+
+
+// poll is protected, the tests read through it the way the expect* assertions do
+class PollingAssert extends UiAssert {
+    pollValue<T>(read: (readTimeout: number) => Promise<T>, check: (value: T) => boolean, options?: { timeout?: number, interval?: number }) {
+        return this.poll(read, check, options);
+    }
+}
+
+// Stands in for an element whose read waits as long as it is allowed to, e.g. for a fallback locator candidate
+function slowRead(readTimeouts: number[], value: boolean) {
+    return async (readTimeout: number) => {
+        readTimeouts.push(readTimeout);
+        await new Promise((resolve) => setTimeout(resolve, readTimeout));
+        return value;
+    };
+}
+
+test.describe('UiAssert poll', () => {
+    test('gives each read at most the poll interval', async () => {
+        const readTimeouts: number[] = [];
+        const result = await new PollingAssert().pollValue(slowRead(readTimeouts, true), (visible) => visible === false, { timeout: 1000, interval: 200 });
+        expect(result.passed).toBe(false);
+        expect(readTimeouts.length).toBeGreaterThan(1);
+        readTimeouts.forEach((readTimeout) => expect(readTimeout).toBeLessThanOrEqual(200));
+    });
+
+    test('respects the assertion deadline when reads wait for their whole timeout', async () => {
+        const readTimeouts: number[] = [];
+        const startTime = Date.now();
+        const result = await new PollingAssert().pollValue(slowRead(readTimeouts, true), (visible) => visible === false, { timeout: 1000, interval: 400 });
+        const elapsedMs = Date.now() - startTime;
+        expect(result.passed).toBe(false);
+        // One interval of slack for the last sleep, far below the read wait timeout of the config
+        expect(elapsedMs).toBeLessThan(1000 + 400 + 200);
+    });
+
+    test('never hands a read more than the time left', async () => {
+        const readTimeouts: number[] = [];
+        await new PollingAssert().pollValue(slowRead(readTimeouts, true), () => false, { timeout: 300, interval: 1000 });
+        expect(readTimeouts).toHaveLength(1);
+        expect(readTimeouts[0]).toBeLessThanOrEqual(300);
+    });
+
+    test('passes as soon as the check holds', async () => {
+        const result = await new PollingAssert().pollValue(async () => 'Saved', (text) => text === 'Saved', { timeout: 5000, interval: 100 });
+        expect(result).toMatchObject({ passed: true, value: 'Saved', attempts: 1 });
+    });
+});
@@ -0,0 +1,102 @@
+import config from "./config"
+import { CustomAssert } from "./assert"
+import { UiElement, UiTable } from "./playwright"
+import { withoutFailureCapture } from "./failure.artifacts"
+import { TableCompareOptions, loadSnapshot } from "./table.snapshot"
+
+
+/*
+Web-first assertions on UiElement and UiTable. Instead of reading a value once and comparing the snapshot, each check
+re-reads the element until the condition holds or the timeout (ASSERTION_TIMEOUT) expires, the same way playwright's
+expect(locator) assertions do. Hard mode (default) fails the test, `soft: true` records the failure in assertsJson and
+lets the test continue. Both report the last value read and the number of attempts.
+*/
+
+
+type UiAssertOptions = { soft?: boolean, timeout?: number, interval?: number }
+
+type PollResult<T> = { passed: boolean, value: T | string, attempts: number, elapsedMs: number }
+
+export class UiAssert extends CustomAssert {
+
+    /*
+    Re-reads the value until the check passes or the timeout expires. A read which throws counts as a failed attempt.
+    Each read gets the time it may wait (the poll interval, at most what is left of the timeout) and hands it to the
+    element, so neither playwright's waits nor the wait for a fallback locator candidate outlast the assertion timeout.
+    */
+    protected async poll<T>(read: (readTimeout: number) => Promise<T>, check: (value: T) => boolean, options?: UiAssertOptions): Promise<PollResult<T>> {
+        const timeout = options?.timeout ?? config.ASSERTION_TIMEOUT
+        const interval = options?.interval ?? config.ASSERTION_POLL_INTERVAL
+        const startTime = Date.now()
+        let attempts = 0
+        let value: T | string
+        while (true) {
+            attempts++
+            try {
+                const readTimeout = Math.max(1, Math.min(interval, timeout - (Date.now() - startTime)))
+                value = await withoutFailureCapture(() => read(readTimeout))
+                if (check(value as T)) return { passed: true, value, attempts, elapsedMs: Date.now() - startTime }
+            } catch (error) {
+                value = `${error?.name}: ${error?.message?.split('\n')[0]}`
+            }
+            if (Date.now() - startTime + interval > timeout) {
+                return { passed: false, value, attempts, elapsedMs: Date.now() - startTime }
+            }
+            await new Promise(resolve => setTimeout(resolve, interval))
+        }
+    }
+
+    protected async reportPoll<T>(assertion: string, result: PollResult<T>, expected: any, message: string, options?: UiAssertOptions){
+        await this.report(assertion, result.passed, result.value, expected, message, { lastValue: result.value, attempts: result.attempts, elapsedMs: result.elapsedMs, timeout: options?.timeout ?? config.ASSERTION_TIMEOUT }, !(options?.soft ?? false))
+    }
+
+    protected textMatches(actual: string, expected: string | RegExp, contains: boolean, caseSensitive: boolean){
+        if (expected instanceof RegExp) return expected.test(actual)
+        const _actual = caseSensitive ? actual.trim() : actual.toLowerCase().trim()
+        const _expected = caseSensitive ? expected.trim() : expected.toLowerCase().trim()
+        return contains ? _actual.includes(_expected) : _actual === _expected
+    }
+
+    async expectText(element: UiElement, expected: string | RegExp, message: string, options?: UiAssertOptions & { index?: number, contains?: boolean, caseSensitive?: boolean }){
+        const result = await this.poll((readTimeout) => element.getText(options?.index ?? 0, { timeout: readTimeout }), (text: string) => this.textMatches(text, expected, options?.contains ?? false, options?.caseSensitive ?? false), options)
+        await this.reportPoll('expectText', result, expected, message, options)
+    }
+
+    async expectVisible(element: UiElement, message: string, options?: UiAssertOptions & { visible?: boolean }){
+        const visible = options?.visible ?? true
+        const result = await this.poll((readTimeout) => element.isVisible({ timeout: readTimeout }), (value: boolean) => value === visible, options)
+        await this.reportPoll(visible ? 'expectVisible' : 'expectHidden', result, visible, message, options)
+    }
+
+    async expectEnabled(element: UiElement, message: string, options?: UiAssertOptions & { enabled?: boolean }){
+        const enabled = options?.enabled ?? true
+        const result = await this.poll((readTimeout) => element.isEnabled({ timeout: readTimeout }), (value: boolean) => value === enabled, options)
+        await this.reportPoll(enabled ? 'expectEnabled' : 'expectDisabled', result, enabled, message, options)
+    }
+
+    async expectCellValue(table: UiTable, row: number, col: number, expected: string | RegExp, message: string, options?: UiAssertOptions & { locator?: string, contains?: boolean, caseSensitive?: boolean }){
+        const result = await this.poll((readTimeout) => table.getCellData(row, col, { locator: options?.locator, timeout: readTimeout }), (text: string) => this.textMatches(text, expected, options?.contains ?? false, options?.caseSensitive ?? false), options)
+        await this.reportPoll('expectCellValue', result, expected, `${message} - Row, Column [${row}, ${col}]`, options)
+    }
+
+    async expectRowExists(table: UiTable, rowValues: string[], message: string, options?: UiAssertOptions & { locator?: string, exactMatch?: boolean, exists?: boolean }){
+        const exists = options?.exists ?? true
+        const result = await this.poll((readTimeout) => table.getMatchedRowIndex([...rowValues], { locator: options?.locator, exactMatch: options?.exactMatch, timeout: readTimeout }), (index: number) => (index >= 0) === exists, options)
+        await this.reportPoll(exists ? 'expectRowExists' : 'expectRowNotExists', result, rowValues, message, options)
+    }
+
+    async expectRowCount(table: UiTable, expectedCount: number, message: string, options?: UiAssertOptions & { locator?: string }){
+        const result = await this.poll((readTimeout) => table.getRowsLength({ locator: options?.locator, timeout: readTimeout }), (count: number) => count === expectedCount, options)
+        await this.reportPoll('expectRowCount', result, expectedCount, message, options)
+    }
+
+    // Compares the rendered table once against the expected data of a .xlsx, .csv or .json file
+    async expectTableMatchesFile(table: UiTable, expectedFile: string, message: string, options?: TableCompareOptions & { soft?: boolean, sheetName?: string, allPages?: boolean, headerRowCount?: number }){
+        const expected = await loadSnapshot(expectedFile, options)
+        const actual = await table.getSnapshot(options)
+        if (options?.soft ?? false) await this.softTableEquals(actual, expected, `${message} - ${expectedFile}`, options)
+        else await this.hardTableEquals(actual, expected, `${message} - ${expectedFile}`, options)
+    }
+}
+
+export default new UiAssert();
@@ -0,0 +1,43 @@
+import config from './config';
+
+
+/*
+Central wait policy for UiActions. Every action type has its own timeout which is handed to playwright's own
+actionability checks (visible, stable, enabled, receives events) instead of sleeping for a fixed time. The timeout of an
+action is resolved from the per-call option first, then the per-element policy and finally this global policy, which is
+seeded from project.config.json.
+*/
+
+
+export type WaitAction = 'click' | 'fill' | 'read' | 'tableLoad' | 'pageLoad';
+
+export type WaitPolicy = { [action in WaitAction]: number };
+
+function defaultWaitPolicy(): WaitPolicy {
+    return {
+        click: config.ELEMENT_WAIT_FOR_ACTION,
+        fill: config.ELEMENT_WAIT_FOR_ACTION,
+        read: config.DEFAULT_WAIT_TIME,
+        tableLoad: config.TABLE_LOAD_TIMEOUT,
+        pageLoad: config.PAGE_LOAD_TIMEOUT
+    };
+}
+
+let globalWaitPolicy: WaitPolicy = defaultWaitPolicy();
+
+export function getWaitPolicy(): WaitPolicy {
+    return { ...globalWaitPolicy };
+}
+
+// Overrides the global timeouts for the remaining actions of the run, e.g. from a beforeAll hook
+export function setWaitPolicy(overrides: Partial<WaitPolicy>) {
+    globalWaitPolicy = { ...globalWaitPolicy, ...overrides };
+}
+
+export function resetWaitPolicy() {
+    globalWaitPolicy = defaultWaitPolicy();
+}
+
+export function resolveWaitTimeout(action: WaitAction, elementPolicy?: Partial<WaitPolicy>, callTimeout?: number) {
+    return callTimeout ?? elementPolicy?.[action] ?? globalWaitPolicy[action];
+}